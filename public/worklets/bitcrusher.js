@@ -1,6 +1,7 @@
 /**
  * SP-1200 Bitcrusher AudioWorklet Processor
- * Emulates the 12-bit, 26.04kHz sampling of the original E-mu SP-1200
+ * Free-form bit depth and sample-and-hold rate reduction ("creative" mode).
+ * The accurate 26.04kHz/12-bit model is applied at load time in AudioEngine.
  */
 class BitcrusherProcessor extends AudioWorkletProcessor {
   static get parameterDescriptors() {
@@ -31,8 +32,9 @@ class BitcrusherProcessor extends AudioWorkletProcessor {
 
   constructor() {
     super();
-    this._lastSample = 0;
-    this._sampleCounter = 0;
+    // Hold state is kept per channel so stereo input isn't smeared
+    this._lastSample = [];
+    this._sampleCounter = [];
   }
 
   process(inputs, outputs, parameters) {
@@ -57,21 +59,27 @@ class BitcrusherProcessor extends AudioWorkletProcessor {
 
       if (!inputChannel) continue;
 
+      let lastSample = this._lastSample[channel] || 0;
+      let sampleCounter = this._sampleCounter[channel] || 0;
+
       for (let i = 0; i < outputChannel.length; i++) {
         // Sample rate reduction
-        this._sampleCounter++;
-        if (this._sampleCounter >= reduction) {
-          this._sampleCounter = 0;
+        sampleCounter++;
+        if (sampleCounter >= reduction) {
+          sampleCounter = 0;
           // Bit depth reduction
           // Quantize to discrete levels
-          this._lastSample = Math.floor((inputChannel[i] + 1) / step) * step - 1;
+          lastSample = Math.floor((inputChannel[i] + 1) / step) * step - 1;
           // Clamp to valid range
-          this._lastSample = Math.max(-1, Math.min(1, this._lastSample));
+          lastSample = Math.max(-1, Math.min(1, lastSample));
         }
 
         // Mix dry/wet
-        outputChannel[i] = inputChannel[i] * (1 - mix) + this._lastSample * mix;
+        outputChannel[i] = inputChannel[i] * (1 - mix) + lastSample * mix;
       }
+
+      this._lastSample[channel] = lastSample;
+      this._sampleCounter[channel] = sampleCounter;
     }
 
     return true;
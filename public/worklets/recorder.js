@@ -0,0 +1,112 @@
+/**
+ * SP-1200 Recorder AudioWorklet Processor
+ * Meters the sampling input and captures mono audio once armed.
+ * Capture starts when the input crosses the threshold (or immediately
+ * when forced) and ends at the maximum length or on stop.
+ */
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this._state = 'idle'; // idle | armed | recording
+    this._threshold = 0.1;
+    this._maxSamples = sampleRate * 2.5;
+    this._chunks = [];
+    this._recorded = 0;
+    this._peak = 0;
+    this._meterCounter = 0;
+    this._meterInterval = Math.round(sampleRate / 20); // ~20 level reports per second
+
+    this.port.onmessage = (event) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'arm':
+          this._threshold = message.threshold;
+          this._maxSamples = message.maxSamples;
+          this._reset();
+          this._state = 'armed';
+          break;
+        case 'force':
+          this._maxSamples = message.maxSamples;
+          this._reset();
+          this._state = 'recording';
+          this.port.postMessage({ type: 'started' });
+          break;
+        case 'stop':
+          if (this._state === 'recording') {
+            this._finish();
+          } else {
+            this._state = 'idle';
+          }
+          break;
+      }
+    };
+  }
+
+  _reset() {
+    this._chunks = [];
+    this._recorded = 0;
+  }
+
+  _finish() {
+    const data = new Float32Array(this._recorded);
+    let offset = 0;
+    for (const chunk of this._chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this._chunks = [];
+    this._state = 'idle';
+    this.port.postMessage({ type: 'complete', data }, [data.buffer]);
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || !input.length) {
+      return true;
+    }
+
+    // Mix down to mono
+    const length = input[0].length;
+    const mono = new Float32Array(length);
+    for (let channel = 0; channel < input.length; channel++) {
+      const data = input[channel];
+      for (let i = 0; i < length; i++) {
+        mono[i] += data[i] / input.length;
+      }
+    }
+
+    // Level meter
+    for (let i = 0; i < length; i++) {
+      const level = Math.abs(mono[i]);
+      if (level > this._peak) this._peak = level;
+    }
+    this._meterCounter += length;
+    if (this._meterCounter >= this._meterInterval) {
+      this.port.postMessage({ type: 'level', peak: this._peak });
+      this._peak = 0;
+      this._meterCounter = 0;
+    }
+
+    let start = 0;
+    if (this._state === 'armed') {
+      // Wait for the threshold; capture starts at the crossing sample
+      start = mono.findIndex((sample) => Math.abs(sample) >= this._threshold);
+      if (start === -1) return true;
+      this._state = 'recording';
+      this.port.postMessage({ type: 'started' });
+    }
+
+    if (this._state === 'recording') {
+      const count = Math.min(length - start, this._maxSamples - this._recorded);
+      this._chunks.push(mono.slice(start, start + count));
+      this._recorded += count;
+      if (this._recorded >= this._maxSamples) {
+        this._finish();
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('recorder-processor', RecorderProcessor);
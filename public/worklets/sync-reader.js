@@ -0,0 +1,48 @@
+/**
+ * SP-1200 Sync Reader AudioWorklet Processor
+ * Forwards one input channel to the main thread in blocks, stamped with
+ * the sample position of the first sample, for click and timecode decoding.
+ */
+class SyncReaderProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this._channel = options.processorOptions?.channel ?? 0;
+    this._blockSize = 1024; // ~23ms at 44.1kHz
+    this._block = new Float32Array(this._blockSize);
+    this._filled = 0;
+    this._blockStart = 0;
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'channel') {
+        this._channel = event.data.channel;
+      }
+    };
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || !input.length) {
+      return true;
+    }
+
+    // Mono inputs feed the same signal on either channel setting
+    const data = input[Math.min(this._channel, input.length - 1)];
+    for (let i = 0; i < data.length; i++) {
+      if (this._filled === 0) {
+        this._blockStart = currentFrame + i;
+      }
+      this._block[this._filled++] = data[i];
+      if (this._filled === this._blockSize) {
+        this.port.postMessage({ startFrame: this._blockStart, data: this._block }, [
+          this._block.buffer,
+        ]);
+        this._block = new Float32Array(this._blockSize);
+        this._filled = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('sync-reader-processor', SyncReaderProcessor);
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { BounceSource, useSP1200Store } from "@/store/sp1200Store";
+import { BOUNCE_SAMPLE_RATES } from "@/lib/audio/bounce";
+import { WAV_FORMATS, WavFormat } from "@/lib/audio/wav";
+import { downloadBlob } from "@/lib/project/files";
+
+interface BouncePanelProps {
+  onClose: () => void;
+  onMessage: (text: string) => void; // LCD feedback
+}
+
+const FORMAT_LABELS: Record<WavFormat, string> = {
+  "16": "16-bit",
+  "24": "24-bit",
+  "32f": "32-bit float",
+};
+
+/**
+ * Bounce panel - render the current segment or song to WAV (mix or stems)
+ */
+export default function BouncePanel({ onClose, onMessage }: BouncePanelProps) {
+  const { audioInitialized, bounceAudio } = useSP1200Store();
+  const [source, setSource] = useState<BounceSource>("segment");
+  const [format, setFormat] = useState<WavFormat>("16");
+  const [sampleRate, setSampleRate] = useState(BOUNCE_SAMPLE_RATES[0]);
+  const [stems, setStems] = useState(false);
+  const [rendering, setRendering] = useState(false);
+
+  const handleRender = async () => {
+    if (!audioInitialized) {
+      onMessage("START AUDIO FIRST");
+      return;
+    }
+
+    setRendering(true);
+    onMessage("BOUNCING...");
+    try {
+      const files = await bounceAudio(source, { sampleRate, format, stems });
+      files.forEach(({ name, blob }) => downloadBlob(blob, name));
+      onMessage(files.length ? `BOUNCED ${files.length} FILE${files.length > 1 ? "S" : ""}` : "NOTHING TO BOUNCE");
+    } catch (error) {
+      console.error("[SP1200] Bounce failed:", error);
+      onMessage("BOUNCE ERROR");
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  return (
+    <div className="bounce-panel">
+      <div className="catalog-header">
+        <span>BOUNCE</span>
+        <button className="catalog-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      <label>
+        Source
+        <select value={source} onChange={(e) => setSource(e.target.value as BounceSource)}>
+          <option value="segment">Segment</option>
+          <option value="song">Song</option>
+        </select>
+      </label>
+      <label>
+        Format
+        <select value={format} onChange={(e) => setFormat(e.target.value as WavFormat)}>
+          {WAV_FORMATS.map((f) => (
+            <option key={f} value={f}>
+              {FORMAT_LABELS[f]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Sample rate
+        <select value={sampleRate} onChange={(e) => setSampleRate(Number(e.target.value))}>
+          {BOUNCE_SAMPLE_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate} Hz
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <input type="checkbox" checked={stems} onChange={(e) => setStems(e.target.checked)} />
+        Channel stems
+      </label>
+      <button onClick={handleRender} disabled={rendering}>
+        {rendering ? "Rendering..." : "Render WAV"}
+      </button>
+    </div>
+  );
+}
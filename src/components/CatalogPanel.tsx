@@ -0,0 +1,110 @@
+"use client";
+
+import { useSP1200Store } from "@/store/sp1200Store";
+import { formatSoundName } from "@/lib/audio/banks";
+import { LibraryEntry, LibrarySequences, LibrarySound } from "@/lib/library/SoundLibrary";
+
+interface CatalogPanelProps {
+  onMessage: (text: string) => void; // LCD feedback
+}
+
+const describeEntry = (entry: LibraryEntry, kind: "sounds" | "sequences") => {
+  if (kind === "sounds") {
+    return `${(entry as LibrarySound).duration.toFixed(2)}s`;
+  }
+  const { patternCount, songCount } = entry as LibrarySequences;
+  return `${patternCount} SEG / ${songCount} SONG`;
+};
+
+/**
+ * Library catalog side panel (Disk 7/8) - search, tag and assign entries
+ */
+export default function CatalogPanel({ onMessage }: CatalogPanelProps) {
+  const {
+    catalog,
+    lastSoundIndex,
+    closeCatalog,
+    searchCatalog,
+    selectCatalogEntry,
+    assignCatalogEntry,
+    setCatalogTags,
+    addSequencesToLibrary,
+  } = useSP1200Store();
+
+  if (!catalog) return null;
+  const selectedEntry = catalog.entries[catalog.selected];
+
+  const handleAssign = async () => {
+    if (!selectedEntry) return;
+    const assigned = await assignCatalogEntry();
+    if (!assigned) {
+      onMessage("LIBRARY ERROR");
+    } else if (catalog.kind === "sounds") {
+      onMessage(`${formatSoundName(lastSoundIndex)}: ${selectedEntry.name.substring(0, 10)}`);
+    } else {
+      onMessage("SEQUENCES LOADED");
+    }
+  };
+
+  const handleSaveTags = (text: string) => {
+    if (!selectedEntry || text === selectedEntry.tags.join(", ")) return;
+    setCatalogTags(selectedEntry.hash, text.split(","));
+  };
+
+  const handleStoreSequences = () => {
+    const name = `SEQUENCES ${new Date().toLocaleString()}`;
+    addSequencesToLibrary(name);
+    onMessage("SEQUENCES STORED");
+  };
+
+  return (
+    <div className="catalog-panel">
+      <div className="catalog-header">
+        <span>CATALOG {catalog.kind.toUpperCase()}</span>
+        <button className="catalog-close" onClick={closeCatalog}>
+          ×
+        </button>
+      </div>
+      <input
+        className="catalog-search"
+        placeholder="Search name or tag"
+        value={catalog.query}
+        onChange={(e) => searchCatalog(e.target.value)}
+      />
+      <div className="catalog-list">
+        {catalog.entries.length === 0 && <div className="catalog-empty">NO ENTRIES</div>}
+        {catalog.entries.map((entry, index) => (
+          <div
+            key={entry.hash}
+            className={`catalog-entry ${index === catalog.selected ? "selected" : ""}`}
+            onClick={() => selectCatalogEntry(index)}
+            onDoubleClick={handleAssign}
+          >
+            <span className="catalog-name">{entry.name}</span>
+            <span className="catalog-info">{describeEntry(entry, catalog.kind)}</span>
+            {entry.tags.length > 0 && <span className="catalog-tags">{entry.tags.join(" · ")}</span>}
+          </div>
+        ))}
+      </div>
+      {selectedEntry && (
+        <div className="catalog-actions">
+          <input
+            key={`${selectedEntry.hash}:${selectedEntry.tags.join(",")}`}
+            className="catalog-search"
+            placeholder="Tags, comma separated"
+            defaultValue={selectedEntry.tags.join(", ")}
+            onBlur={(e) => handleSaveTags(e.target.value)}
+          />
+          <button onClick={handleAssign}>
+            {catalog.kind === "sounds" ? `Assign to ${formatSoundName(lastSoundIndex)}` : "Load"}
+          </button>
+        </div>
+      )}
+      {catalog.kind === "sequences" && (
+        <button className="catalog-store" onClick={handleStoreSequences}>
+          Store current sequences
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useSP1200Store } from "@/store/sp1200Store";
+import { INPUT_ACTIONS, INPUT_ACTION_LABELS, formatBinding, getBindings } from "@/lib/input/mapping";
+
+interface InputMapPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Input map panel - keys and gamepad buttons bound to each control.
+ * Learn waits for the next key or button; Escape cancels.
+ */
+export default function InputMapPanel({ onClose }: InputMapPanelProps) {
+  const { inputMapping, inputLearn, setInputLearn, unbindInput, resetInputMapping } =
+    useSP1200Store();
+
+  return (
+    <div className="bounce-panel input-panel">
+      <div className="catalog-header">
+        <span>KEYS / GAMEPAD</span>
+        <button className="catalog-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      <div className="input-map">
+        {INPUT_ACTIONS.map((action) => {
+          const bindings = getBindings(inputMapping, action);
+          const learning = inputLearn === action;
+          return (
+            <div key={action} className="input-map-row">
+              <span>{INPUT_ACTION_LABELS[action]}</span>
+              <span className="input-map-bindings">
+                {learning ? "PRESS A KEY..." : bindings.map(formatBinding).join(", ") || "--"}
+              </span>
+              <button onClick={() => setInputLearn(learning ? null : action)}>
+                {learning ? "Cancel" : "Learn"}
+              </button>
+              {bindings.length > 0 && <button onClick={() => unbindInput(action)}>×</button>}
+            </div>
+          );
+        })}
+      </div>
+      <button onClick={resetInputMapping}>Reset to defaults</button>
+    </div>
+  );
+}
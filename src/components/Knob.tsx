@@ -0,0 +1,48 @@
+"use client";
+
+import { useRef } from "react";
+
+interface KnobProps {
+  value: number; // 0-1
+  onChange: (value: number) => void;
+}
+
+const SWEEP_DEGREES = 270;
+const DRAG_PIXELS = 150; // vertical travel for the full range
+
+/**
+ * Rotary knob - drag up/down to change value
+ */
+export default function Knob({ value, onChange }: KnobProps) {
+  const dragRef = useRef<{ startY: number; startValue: number } | null>(null);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    dragRef.current = { startY: e.clientY, startValue: value };
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (!dragRef.current) return;
+      const delta = (dragRef.current.startY - moveEvent.clientY) / DRAG_PIXELS;
+      onChange(Math.max(0, Math.min(1, dragRef.current.startValue + delta)));
+    };
+
+    const handleMouseUp = () => {
+      dragRef.current = null;
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+  };
+
+  const angle = value * SWEEP_DEGREES - SWEEP_DEGREES / 2;
+
+  return (
+    <div
+      className="knob"
+      style={{ transform: `rotate(${angle}deg)` }}
+      onMouseDown={handleMouseDown}
+    ></div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useSP1200Store } from "@/store/sp1200Store";
+
+interface MidiPanelProps {
+  onClose: () => void;
+  onMessage: (text: string) => void; // LCD feedback
+}
+
+const SLIDER_COUNT = 8;
+
+/**
+ * MIDI panel (Set-up 22) - ports, channel, note map, clock out and CC learn
+ */
+export default function MidiPanel({ onClose, onMessage }: MidiPanelProps) {
+  const {
+    midiEnabled,
+    midiInputs,
+    midiOutputs,
+    midiSettings,
+    ccMap,
+    midiLearnSlider,
+    enableMidi,
+    setMidiSettings,
+    setMidiLearnSlider,
+    clearSliderCc,
+  } = useSP1200Store();
+
+  const handleEnable = async () => {
+    try {
+      await enableMidi();
+      onMessage("MIDI ENABLED");
+    } catch (error) {
+      console.error("[SP1200] MIDI unavailable:", error);
+      onMessage("NO MIDI ACCESS");
+    }
+  };
+
+  // CC mapped to each slider
+  const sliderCc = (slider: number) =>
+    Object.entries(ccMap).find(([, mapped]) => mapped === slider)?.[0];
+
+  return (
+    <div className="bounce-panel midi-panel">
+      <div className="catalog-header">
+        <span>MIDI</span>
+        <button className="catalog-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      {!midiEnabled ? (
+        <button onClick={handleEnable}>Enable MIDI</button>
+      ) : (
+        <>
+          <label>
+            Input
+            <select
+              value={midiSettings.inputId ?? ""}
+              onChange={(e) => setMidiSettings({ inputId: e.target.value || null })}
+            >
+              <option value="">None</option>
+              {midiInputs.map((port) => (
+                <option key={port.id} value={port.id}>
+                  {port.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Output
+            <select
+              value={midiSettings.outputId ?? ""}
+              onChange={(e) => setMidiSettings({ outputId: e.target.value || null })}
+            >
+              <option value="">None</option>
+              {midiOutputs.map((port) => (
+                <option key={port.id} value={port.id}>
+                  {port.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+      <label>
+        Channel
+        <select
+          value={midiSettings.channel ?? ""}
+          onChange={(e) =>
+            setMidiSettings({ channel: e.target.value === "" ? null : Number(e.target.value) })
+          }
+        >
+          <option value="">Omni</option>
+          {Array.from({ length: 16 }, (_, i) => (
+            <option key={i} value={i}>
+              {i + 1}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Note of A1
+        <input
+          type="number"
+          min={0}
+          max={127}
+          value={midiSettings.baseNote}
+          onChange={(e) =>
+            setMidiSettings({ baseNote: Math.max(0, Math.min(127, Number(e.target.value))) })
+          }
+        />
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={midiSettings.echoNotes}
+          onChange={(e) => setMidiSettings({ echoNotes: e.target.checked })}
+        />
+        Echo pads as notes
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={midiSettings.sendClock}
+          onChange={(e) => setMidiSettings({ sendClock: e.target.checked })}
+        />
+        Send clock
+      </label>
+      <div className="midi-learn">
+        {Array.from({ length: SLIDER_COUNT }, (_, slider) => {
+          const cc = sliderCc(slider);
+          const learning = midiLearnSlider === slider;
+          return (
+            <div key={slider} className="midi-learn-row">
+              <span>Slider {slider + 1}</span>
+              <span>{learning ? "MOVE A CC..." : cc !== undefined ? `CC ${cc}` : "--"}</span>
+              <button onClick={() => setMidiLearnSlider(learning ? null : slider)}>
+                {learning ? "Cancel" : "Learn"}
+              </button>
+              {cc !== undefined && <button onClick={() => clearSliderCc(slider)}>×</button>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,20 +2,165 @@
 
 import { useEffect, useRef, useCallback, useState } from "react";
 import { useSP1200Store } from "@/store/sp1200Store";
+import { BANKS, formatSoundName, getSoundIndex } from "@/lib/audio/banks";
+import { QUANTIZE_VALUES, SWING_VALUES } from "@/lib/sequencer/timing";
+import { MAX_REPEATS, formatSongStep } from "@/lib/sequencer/song";
+import { formatStepEvents, formatStepPosition, getEventsAt } from "@/lib/sequencer/stepEdit";
+import { createPattern } from "@/lib/sequencer/pattern";
+import { EDIT_POINTS } from "@/lib/audio/sampleEdit";
+import { MAX_SAMPLE_SECONDS } from "@/lib/audio/InputCapture";
+import { collectDroppedFiles, formatImportSummary } from "@/lib/audio/sampleImport";
+import { audioEngine } from "@/lib/audio/AudioEngine";
+import { InputAction, InputBinding, getBoundAction } from "@/lib/input/mapping";
+import { gamepadInput } from "@/lib/input/GamepadInput";
+import { SYNC_MODES } from "@/lib/sync/sources";
+import {
+  LCD_WIDTH,
+  LcdView,
+  MENU_ITEMS,
+  MenuColumn,
+  fitLcd,
+  formatMenu,
+  formatMessage,
+} from "@/lib/menu/menu";
+import { MENU_FUNCTIONS } from "@/store/menuFunctions";
+import Knob from "@/components/Knob";
+import WaveformView from "@/components/WaveformView";
+import CatalogPanel from "@/components/CatalogPanel";
+import BouncePanel from "@/components/BouncePanel";
+import MidiPanel from "@/components/MidiPanel";
+import SyncPanel from "@/components/SyncPanel";
+import InputMapPanel from "@/components/InputMapPanel";
+import StepGrid from "@/components/StepGrid";
+
+const MIN_PAD_VELOCITY = 0.05;
+
+/**
+ * Pad velocity (0-1): pen/touch pressure where the device reports it,
+ * otherwise how high on the pad it was hit (top edge = full)
+ */
+function getPadVelocity(e: React.PointerEvent<HTMLDivElement>): number {
+  // 0.5 is the pressure reported by devices without pressure sensing
+  if (e.pointerType !== "mouse" && e.pressure > 0 && e.pressure !== 0.5) {
+    return e.pressure;
+  }
+  const rect = e.currentTarget.getBoundingClientRect();
+  const height = 1 - (e.clientY - rect.top) / rect.height;
+  return Math.min(1, Math.max(MIN_PAD_VELOCITY, height));
+}
+
+/**
+ * Keys typed into panel fields are not controls
+ */
+function isTextEntry(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
 
 export default function SP1200() {
   const {
     audioInitialized,
+    masterVolume,
+    metronomeVolume,
+    captureStatus,
+    vuMode,
+    inputLevel,
+    inputGain,
+    sampleTarget,
+    sampleEdits,
+    loopEdit,
     sliderValues,
     loadedSamples,
+    currentBank,
+    perfMode,
+    tuneDecaySelect,
+    multiMode,
+    currentMix,
+    patterns,
+    currentPattern,
+    isPlaying,
+    isRecording,
+    quantize,
+    swing,
+    metronomeEnabled,
+    programMode,
+    songs,
+    currentSong,
+    songCursor,
+    stepCursor,
+    eraseHeld,
+    lastSoundIndex,
     initAudio,
+    setMasterVolume,
+    setMetronomeVolume,
+    setInputGain,
+    stopSampling,
+    closeLoopEdit,
+    selectEditPoint,
+    nudgeEditPoint,
+    toggleZeroSnap,
+    toggleReverse,
+    toggleLoop,
+    truncateSample,
     setSliderValue,
-    loadSample,
+    cyclePerfMode,
+    importSamples,
     triggerPad,
+    cycleBank,
+    tapPad,
+    setRepeatHeld,
+    heldPads,
+    holdPad,
+    releasePad,
+    setEraseHeld,
+    setStepCursor,
+    moveStepCursor,
+    addPatternEvent,
+    togglePlay,
+    toggleRecord,
+    setPatternLength,
+    setQuantize,
+    setSwing,
+    toggleMetronome,
+    toggleProgramMode,
+    setSongCursor,
+    insertSongStep,
+    openTempoChange,
+    pressTempo,
+    updateSongStep,
+    deleteSongStep,
+    catalog,
+    selectCatalogEntry,
+    assignCatalogEntry,
+    syncMode,
+    dynamicButtons,
+    inputMapping,
+    inputLearn,
+    setInputLearn,
+    bindInput,
+    lcdMessage,
+    menu,
+    setLcdMessage,
+    pressMenuButton,
+    openMenuFunction,
+    pressKeypad,
+    pressCursor,
+    pressEnter,
+    undo,
+    redo,
+    restoreSession,
   } = useSP1200Store();
 
   const [dragOverPad, setDragOverPad] = useState<number | null>(null);
-  const [lcdText, setLcdText] = useState("SP-1200 READY");
+  const [bounceOpen, setBounceOpen] = useState(false);
+  const [midiOpen, setMidiOpen] = useState(false);
+  const [syncOpen, setSyncOpen] = useState(false);
+  const [inputMapOpen, setInputMapOpen] = useState(false);
+  const [stepGridOpen, setStepGridOpen] = useState(false);
 
   // Refs for interactive elements
   const slidersRef = useRef<(HTMLDivElement | null)[]>([]);
@@ -24,28 +169,180 @@ export default function SP1200() {
   const handleStartAudio = async () => {
     try {
       await initAudio();
-      setLcdText("AUDIO ACTIVE");
+      setLcdMessage("AUDIO ACTIVE");
       console.log("[SP1200] Audio initialized");
     } catch (error) {
       console.error("[SP1200] Failed to initialize audio:", error);
-      setLcdText("AUDIO ERROR");
+      setLcdMessage("AUDIO ERROR");
     }
   };
 
-  // Handle pad click - trigger sample
-  const handlePadClick = useCallback(
-    (index: number) => {
-      console.log(`[SP1200] Pad ${index + 1} clicked`);
-      if (audioInitialized) {
-        triggerPad(index);
-        setLcdText(`PAD ${index + 1} TRIGGERED`);
-      } else {
-        setLcdText("START AUDIO FIRST");
+  // Play a pad (at a velocity with Dynamic Buttons): mouse, touch, keys and gamepad.
+  // The pad stays held for note repeat until it is released.
+  const playPad = useCallback(
+    (index: number, velocity = 1) => {
+      console.log(`[SP1200] Pad ${index + 1} pressed`);
+      if (!audioInitialized) {
+        setLcdMessage("START AUDIO FIRST");
+        return;
+      }
+      triggerPad(index, velocity);
+      holdPad(index, velocity);
+      if (eraseHeld) {
+        setLcdMessage(`ERASE PAD ${currentBank}${index + 1}`);
+        return;
       }
+      setLcdMessage(
+        dynamicButtons
+          ? `PAD ${currentBank}${index + 1} VEL ${Math.round(velocity * 127)}`
+          : `PAD ${currentBank}${index + 1} TRIGGERED`
+      );
     },
-    [audioInitialized, triggerPad]
+    [audioInitialized, currentBank, dynamicButtons, eraseHeld, triggerPad, holdPad, setLcdMessage]
   );
 
+  const handlePadPress = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    playPad(index, dynamicButtons ? getPadVelocity(e) : 1);
+  };
+
+  // Moving on a held pad changes the velocity of a roll
+  const handlePadMove = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    if (!dynamicButtons || !(index in heldPads)) return;
+    const velocity = getPadVelocity(e);
+    if (Math.round(velocity * 127) !== Math.round(heldPads[index] * 127)) {
+      holdPad(index, velocity);
+    }
+  };
+
+  // Sequencer transport
+  // Programming buttons use their top label in Song mode, bottom label in Segment mode
+  const inSong = programMode === "song";
+  const segmentLabel = `SEG ${String(currentPattern).padStart(2, "0")}`;
+  const songLabel = `SONG ${String(currentSong).padStart(2, "0")}`;
+
+  const handleRunStopClick = () => {
+    if (!audioInitialized) {
+      setLcdMessage("START AUDIO FIRST");
+      return;
+    }
+    togglePlay();
+    setLcdMessage(`${inSong ? songLabel : segmentLabel} ${isPlaying ? "STOPPED" : "PLAYING"}`);
+  };
+
+  const handleRecordClick = () => {
+    toggleRecord();
+    setLcdMessage(`${segmentLabel} ${isRecording ? "REC OFF" : "REC ARMED"}`);
+  };
+
+  // Segment Length: cycle 1, 2, 4, 8 bars while stopped
+  const handleSegmentLengthClick = () => {
+    if (isPlaying) return;
+    const lengths = [1, 2, 4, 8];
+    const current = patterns[currentPattern]?.lengthBars ?? 2;
+    const next = lengths[(lengths.indexOf(current) + 1) % lengths.length];
+    setPatternLength(next);
+    setLcdMessage(`${segmentLabel} LEN ${next} BAR${next > 1 ? "S" : ""}`);
+  };
+
+  const handleMetronomeClick = () => {
+    toggleMetronome();
+    setLcdMessage(`METRONOME ${metronomeEnabled ? "OFF" : "ON"}`);
+  };
+
+  const handleSwingClick = () => {
+    const index = SWING_VALUES.indexOf(swing);
+    const next = SWING_VALUES[(index + 1) % SWING_VALUES.length];
+    setSwing(next);
+    setLcdMessage(`SWING ${next}%`);
+  };
+
+  const handleAutoCorrectClick = () => {
+    const index = QUANTIZE_VALUES.indexOf(quantize);
+    const next = QUANTIZE_VALUES[(index + 1) % QUANTIZE_VALUES.length];
+    setQuantize(next);
+    setLcdMessage(`AUTO CORRECT ${next.toUpperCase()}`);
+  };
+
+  // Song editing (Song mode functions of the programming buttons)
+  const songSteps = songs[currentSong]?.steps ?? [];
+  const cursorStep = songSteps[songCursor];
+  const songStepLabel = (step: number) =>
+    `S${String(currentSong).padStart(2, "0")} STEP ${String(step + 1).padStart(2, "0")}`;
+
+  const handleSongInsert = () => {
+    insertSongStep({ type: "segment", pattern: currentPattern, repeats: 1 });
+    setLcdMessage(`${songStepLabel(songCursor)} SEG ${String(currentPattern).padStart(2, "0")}`);
+  };
+
+  const handleSongDelete = () => {
+    if (!cursorStep) return;
+    deleteSongStep();
+    setLcdMessage(`${songStepLabel(songCursor)} DELETED`);
+  };
+
+  const handleSongRepeat = () => {
+    if (cursorStep?.type !== "segment" && cursorStep?.type !== "subsong") return;
+    const repeats = (cursorStep.repeats % MAX_REPEATS) + 1;
+    updateSongStep({ ...cursorStep, repeats });
+    setLcdMessage(`${songStepLabel(songCursor)} X${repeats}`);
+  };
+
+  // Subseq: turn the step at the cursor into a sub-song call (and back)
+  const handleSongSubseq = () => {
+    if (cursorStep?.type === "segment") {
+      updateSongStep({ type: "subsong", song: cursorStep.pattern, repeats: cursorStep.repeats });
+    } else if (cursorStep?.type === "subsong") {
+      updateSongStep({ type: "segment", pattern: cursorStep.song, repeats: cursorStep.repeats });
+    } else {
+      return;
+    }
+    setLcdMessage(`${songStepLabel(songCursor)} CHANGED`);
+  };
+
+  // Step Program (Segment mode): ◀/▶ walk the segment, pads add hits at
+  // the cursor, Insert adds the last sound, Delete/Erase removes hits
+  const handleStepProgramClick = () => {
+    setStepCursor(stepCursor === null ? 0 : null);
+    if (stepCursor !== null) setLcdMessage(`${segmentLabel} STEP OFF`);
+  };
+
+  const handleStepInsert = () => {
+    if (stepCursor === null) return;
+    addPatternEvent({ tick: stepCursor, soundIndex: lastSoundIndex });
+  };
+
+  // Delete/Erase held with pads erases their sound from the running segment
+  const handleErasePress = () => {
+    setEraseHeld(true);
+    if (isPlaying) setLcdMessage("ERASE: HOLD PADS");
+  };
+
+  const handleSongEnd = () => {
+    insertSongStep({ type: "end" });
+    setLcdMessage(`${songStepLabel(songCursor)} END`);
+  };
+
+  const handleCursorMove = (delta: 1 | -1) => {
+    if (pressCursor(delta)) return;
+    if (loopEdit) {
+      nudgeEditPoint(delta);
+      return;
+    }
+    if (catalog) {
+      const index = Math.max(0, Math.min(catalog.entries.length - 1, catalog.selected + delta));
+      selectCatalogEntry(index);
+      return;
+    }
+    if (stepCursor !== null) {
+      moveStepCursor(delta);
+      return;
+    }
+    if (!inSong) return;
+    const step = Math.max(0, Math.min(songSteps.length, songCursor + delta));
+    setSongCursor(step);
+    setLcdMessage(`${songStepLabel(step)} ${formatSongStep(songSteps[step])}`);
+  };
+
   // Handle drag & drop for samples
   const handleDragOver = (e: React.DragEvent, index: number) => {
     e.preventDefault();
@@ -59,32 +356,35 @@ export default function SP1200() {
     setDragOverPad(null);
   };
 
+  // Files and folders spread from the pad dropped on (pad 1 when dropped
+  // elsewhere on the machine) across the pads and banks
   const handleDrop = async (e: React.DragEvent, index: number) => {
     e.preventDefault();
     e.stopPropagation();
     setDragOverPad(null);
 
     if (!audioInitialized) {
-      setLcdText("START AUDIO FIRST");
+      setLcdMessage("START AUDIO FIRST");
       return;
     }
 
-    const files = e.dataTransfer.files;
-    if (files.length > 0) {
-      const file = files[0];
-      if (file.type.startsWith("audio/")) {
-        try {
-          setLcdText(`LOADING ${file.name.substring(0, 12)}...`);
-          await loadSample(index, file);
-          setLcdText(`PAD ${index + 1}: ${file.name.substring(0, 10)}`);
-          console.log(`[SP1200] Sample loaded to pad ${index + 1}: ${file.name}`);
-        } catch (error) {
-          console.error("[SP1200] Failed to load sample:", error);
-          setLcdText("LOAD ERROR");
-        }
+    try {
+      const files = await collectDroppedFiles(e.dataTransfer);
+      if (files.length === 0) return;
+      const soundIndex = getSoundIndex(currentBank, index);
+      setLcdMessage(
+        files.length === 1 ? `LOADING ${files[0].file.name.substring(0, 12)}...` : `LOADING ${files.length} FILES`
+      );
+      const summary = await importSamples(files, soundIndex);
+      if (files.length === 1 && summary.loaded === 1 && summary.tooLong === 0) {
+        setLcdMessage(`PAD ${formatSoundName(soundIndex)}: ${files[0].file.name.substring(0, 10)}`);
       } else {
-        setLcdText("AUDIO FILES ONLY");
+        setLcdMessage(formatImportSummary(summary, MAX_SAMPLE_SECONDS));
       }
+      console.log(`[SP1200] Imported to ${formatSoundName(soundIndex)}:`, summary);
+    } catch (error) {
+      console.error("[SP1200] Failed to load samples:", error);
+      setLcdMessage("LOAD ERROR");
     }
   };
 
@@ -147,78 +447,283 @@ export default function SP1200() {
     return () => cleanupFns.forEach((fn) => fn());
   }, [setSliderValue]);
 
-  // Menu column LED toggle
-  const handleMenuColumnBtnClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    const btn = e.currentTarget;
-    const controlsContainer = btn.closest(
-      ".menu-column-controls-vertical, .menu-column-controls-inline"
+  // Performance mode select - LEDs follow perfMode in the store
+  const handlePerfBtnClick = () => {
+    cyclePerfMode();
+    setLcdMessage(
+      perfMode === "tuneDecay"
+        ? `SLIDERS: ${currentMix}`
+        : `SLIDERS: ${tuneDecaySelect.toUpperCase()}`
     );
-    if (controlsContainer) {
-      const led = controlsContainer.querySelector(".menu-column-led");
-      if (led) {
-        led.classList.toggle("active");
-      }
+  };
+
+  // Bank select - LEDs follow currentBank in the store
+  const handleBankBtnClick = () => {
+    cycleBank();
+    const nextBank = BANKS[(BANKS.indexOf(currentBank) + 1) % BANKS.length];
+    setLcdMessage(`BANK ${nextBank}`);
+  };
+
+  // Song/Segment select - LEDs follow programMode in the store
+  const handleProgBtnClick = () => {
+    if (isPlaying) return;
+    toggleProgramMode();
+    setLcdMessage(inSong ? segmentLabel : songLabel);
+  };
+
+  // Sample record button: arm, or stop a running capture
+  const handleSampleRecordClick = () => {
+    if (captureStatus === "armed" || captureStatus === "recording") {
+      stopSampling();
+    } else {
+      openMenuFunction("sample", 7);
     }
   };
 
-  // Performance LED cycling
-  const handlePerfBtnClick = () => {
-    const perfLeft = document.querySelector(".perf-left");
-    if (!perfLeft) return;
+  // Loop/Truncate editor: Enter steps through the points, ◀/▶ nudge the selected one
+  const editBuffer = loopEdit ? audioEngine.getSampleBuffer(loopEdit.soundIndex) : null;
+  const currentEdit = loopEdit ? sampleEdits[loopEdit.soundIndex] : undefined;
+  const loopEditLabel =
+    loopEdit && currentEdit
+      ? `${formatSoundName(loopEdit.soundIndex)} ${loopEdit.point.toUpperCase()} ${
+          loopEdit.point === "loop" && currentEdit.loop === null ? "OFF" : currentEdit[loopEdit.point]
+        }${currentEdit.reverse ? " REV" : ""}${loopEdit.zeroSnap ? " ZX" : ""}`
+      : null;
 
-    const perfLeds = perfLeft.querySelectorAll(".perf-led");
-    let currentIndex = Array.from(perfLeds).findIndex((led) =>
-      led.classList.contains("active")
-    );
-    if (currentIndex === -1) currentIndex = 0;
+  // Catalog browsing on the LCD: ◀/▶ step through entries, Enter assigns
+  const catalogEntry = catalog?.entries[catalog.selected];
+  const catalogLabel = catalog
+    ? catalogEntry
+      ? `${String(catalog.selected + 1).padStart(3, "0")} ${catalogEntry.name.substring(0, 16).toUpperCase()}`
+      : "CATALOG EMPTY"
+    : null;
 
-    perfLeds.forEach((led) => led.classList.remove("active"));
-    const nextIndex = (currentIndex + 1) % perfLeds.length;
-    perfLeds[nextIndex].classList.add("active");
+  const handleEnterClick = async () => {
+    if (pressEnter()) return;
+    if (catalog && !loopEdit) {
+      const entry = catalog.entries[catalog.selected];
+      if (!entry || !audioInitialized) return;
+      const assigned = await assignCatalogEntry();
+      setLcdMessage(assigned ? `${entry.name.substring(0, 14).toUpperCase()} LOADED` : "LIBRARY ERROR");
+      return;
+    }
+    if (!loopEdit) return;
+    selectEditPoint(EDIT_POINTS[(EDIT_POINTS.indexOf(loopEdit.point) + 1) % EDIT_POINTS.length]);
   };
 
-  // Bank LED cycling
-  const handleBankBtnClick = () => {
-    const bankColumn = document.querySelector(".bank-column");
-    if (!bankColumn) return;
+  useEffect(() => {
+    if (!loopEdit) return;
 
-    const bankRows = bankColumn.querySelectorAll(".bank-row");
-    const bankLeds = Array.from(bankRows).map((row) =>
-      row.querySelector(".bank-led")
-    );
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey) return;
+      switch (e.key) {
+        case "ArrowLeft":
+        case "ArrowRight":
+          nudgeEditPoint(e.key === "ArrowRight" ? 1 : -1, e.shiftKey);
+          break;
+        case "1":
+        case "2":
+        case "3":
+          selectEditPoint(EDIT_POINTS[Number(e.key) - 1]);
+          break;
+        case "z":
+          toggleZeroSnap();
+          break;
+        case "r":
+          toggleReverse();
+          break;
+        case "l":
+          toggleLoop();
+          break;
+        case "t":
+          truncateSample();
+          setLcdMessage(`${formatSoundName(loopEdit.soundIndex)} TRUNCATED`);
+          break;
+        case "Escape":
+          closeLoopEdit();
+          setLcdMessage("LOOP/TRUNCATE OFF");
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
 
-    let currentIndex = bankLeds.findIndex(
-      (led) => led && led.classList.contains("active")
-    );
-    if (currentIndex === -1) currentIndex = 0;
+    // Capture phase: the editor takes its keys before the input mapping sees them
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [
+    loopEdit,
+    nudgeEditPoint,
+    selectEditPoint,
+    toggleZeroSnap,
+    toggleReverse,
+    toggleLoop,
+    truncateSample,
+    closeLoopEdit,
+    setLcdMessage,
+  ]);
 
-    bankLeds.forEach((led) => {
-      if (led) led.classList.remove("active");
-    });
+  // The last session's sequences, mixes and settings are back before the
+  // audio is started; its sounds follow once it is
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
 
-    const nextIndex = (currentIndex + 1) % bankLeds.length;
-    if (bankLeds[nextIndex]) {
-      bankLeds[nextIndex]!.classList.add("active");
+  // Ctrl/Cmd+Z undoes the last edit; with Shift (or Ctrl+Y) it is redone
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        redo();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // Input mapping: keys and gamepad buttons play the front panel
+  const handleInputAction = (action: InputAction, velocity = 1) => {
+    if (action.startsWith("pad")) {
+      playPad(Number(action.slice(3)) - 1, velocity);
+    } else if (action.startsWith("key")) {
+      pressKeypad(Number(action.slice(3)));
+    } else {
+      switch (action) {
+        case "tempo":
+          pressTempo();
+          break;
+        case "left":
+        case "right":
+          handleCursorMove(action === "right" ? 1 : -1);
+          break;
+        case "enter":
+          handleEnterClick();
+          break;
+        case "tap":
+          tapPad();
+          setRepeatHeld(true);
+          break;
+        case "runStop":
+          handleRunStopClick();
+          break;
+        case "record":
+          handleRecordClick();
+          break;
+      }
     }
   };
 
-  // Programming LED cycling (Song/Segment)
-  const handleProgBtnClick = () => {
-    const progUnitFirst = document.querySelector(".prog-unit-first");
-    if (!progUnitFirst) return;
+  // Letting go of a pad or Tap/Repeat ends its note repeat
+  const handleInputRelease = (action: InputAction) => {
+    if (action.startsWith("pad")) {
+      releasePad(Number(action.slice(3)) - 1);
+    } else if (action === "tap") {
+      setRepeatHeld(false);
+    }
+  };
+
+  // In learn mode the next key or button is bound instead of played
+  // (Escape cancels). Returns whether the input was used.
+  const handleInputBinding = (binding: InputBinding, velocity: number, pressed = true): boolean => {
+    if (inputLearn) {
+      if (!pressed) return true;
+      if (binding.type === "key" && binding.code === "Escape") {
+        setInputLearn(null);
+      } else {
+        bindInput(binding, inputLearn);
+      }
+      return true;
+    }
+    const action = getBoundAction(inputMapping, binding);
+    if (!action) return false;
+    if (pressed) {
+      handleInputAction(action, velocity);
+    } else {
+      handleInputRelease(action);
+    }
+    return true;
+  };
+
+  // The listeners are attached once (re-polling would re-fire held
+  // buttons), so they call the latest handler through a ref
+  const inputBindingRef = useRef(handleInputBinding);
+  useEffect(() => {
+    inputBindingRef.current = handleInputBinding;
+  });
 
-    const progLeds = progUnitFirst.querySelectorAll(".prog-led-row .prog-led");
-    if (progLeds.length !== 2) return;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // No key repeat; leave shortcuts, text fields and keys already taken alone
+      if (e.repeat || e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isTextEntry(e.target)) return;
+      if (inputBindingRef.current({ type: "key", code: e.code }, 1)) e.preventDefault();
+    };
+    // Releases always go through, so a hold never sticks
+    const handleKeyUp = (e: KeyboardEvent) => {
+      inputBindingRef.current({ type: "key", code: e.code }, 0, false);
+    };
 
-    let currentIndex = Array.from(progLeds).findIndex((led) =>
-      led.classList.contains("active")
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    const unsubscribe = gamepadInput.subscribe(({ button, value, pressed }) =>
+      inputBindingRef.current({ type: "button", index: button }, value, pressed)
     );
-    if (currentIndex === -1) currentIndex = 0;
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      unsubscribe();
+    };
+  }, []);
 
-    progLeds.forEach((led) => led.classList.remove("active"));
-    const nextIndex = (currentIndex + 1) % progLeds.length;
-    progLeds[nextIndex].classList.add("active");
-  };
+  // LCD: an open menu, then the input meter while the sampling input is
+  // open, the Loop/Truncate editor, the catalog, and otherwise the last message
+  const vuBars = Math.round(Math.min(1, inputLevel) * LCD_WIDTH);
+  const vuLabel: Record<string, string> = { monitoring: "VU", armed: "ARM", recording: "REC" };
+  const stepPattern = patterns[currentPattern] ?? createPattern();
+  const lcd: LcdView = menu
+    ? formatMenu(menu)
+    : stepCursor !== null && !loopEdit && !catalog
+      ? {
+          lines: [
+            fitLcd(`${segmentLabel} ${formatStepPosition(stepCursor, stepPattern.beatsPerBar)}`),
+            fitLcd(formatStepEvents(getEventsAt(stepPattern, stepCursor))),
+          ],
+          cursor: null,
+        }
+      : vuMode && captureStatus !== "closed"
+      ? {
+          lines: [
+            fitLcd(`${vuLabel[captureStatus]} ${formatSoundName(sampleTarget)}`),
+            "█".repeat(vuBars) + "·".repeat(LCD_WIDTH - vuBars),
+          ],
+          cursor: null,
+        }
+      : formatMessage(loopEditLabel ?? catalogLabel ?? lcdMessage);
+
+  // Numbered menu items; clicking one opens it like the column button and its number
+  const renderMenuItems = (column: MenuColumn, isSelected?: (number: number) => boolean) =>
+    MENU_ITEMS[column].map(({ number, name }) => {
+      const selected = isSelected?.(number) ?? false;
+      const enabled = number in MENU_FUNCTIONS[column];
+      return (
+        <div
+          key={number}
+          className={`menu-item ${enabled ? "clickable" : ""} ${selected ? "selected" : ""}`}
+          onClick={enabled ? () => openMenuFunction(column, number) : undefined}
+        >
+          {isSelected && <span className={`sync-led ${selected ? "active" : ""}`}></span>}
+          <span className="menu-number">{number}</span> {name}
+        </div>
+      );
+    });
 
   // Initial slider positions (inverted: value=45 means top=55%)
   const initialSliderTops = sliderValues.map((v) => 100 - v);
@@ -231,8 +736,33 @@ export default function SP1200() {
       >
         {audioInitialized ? "Audio Active" : "Start Audio"}
       </button>
+      <CatalogPanel onMessage={setLcdMessage} />
+      <button className="bounce-btn" onClick={() => setBounceOpen(!bounceOpen)}>
+        Bounce
+      </button>
+      {bounceOpen && <BouncePanel onClose={() => setBounceOpen(false)} onMessage={setLcdMessage} />}
+      {midiOpen && <MidiPanel onClose={() => setMidiOpen(false)} onMessage={setLcdMessage} />}
+      {syncOpen && <SyncPanel onClose={() => setSyncOpen(false)} />}
+      <button className="bounce-btn keys-btn" onClick={() => setInputMapOpen(!inputMapOpen)}>
+        Keys
+      </button>
+      <button className="bounce-btn midi-btn" onClick={() => setMidiOpen(!midiOpen)}>
+        MIDI
+      </button>
+      <button className="bounce-btn sync-btn" onClick={() => setSyncOpen(!syncOpen)}>
+        Sync
+      </button>
+      <button className="bounce-btn steps-btn" onClick={() => setStepGridOpen(!stepGridOpen)}>
+        Steps
+      </button>
+      {inputMapOpen && <InputMapPanel onClose={() => setInputMapOpen(false)} />}
+      {stepGridOpen && <StepGrid onClose={() => setStepGridOpen(false)} />}
 
-      <div className="sp1200">
+      <div
+        className="sp1200"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => handleDrop(e, 0)}
+      >
         <div className="main-panel">
           {/* Header Bar */}
           <div className="header-bar">
@@ -253,155 +783,48 @@ export default function SP1200() {
                   <div className="menu-title">Set-up</div>
                   <div className="menu-content-row">
                     <div className="menu-column-controls-vertical">
-                      <div className="menu-column-led"></div>
-                      <div
-                        className="menu-column-btn"
-                        onClick={handleMenuColumnBtnClick}
-                      ></div>
-                    </div>
-                    <div className="menu-items">
-                      <div className="menu-item">
-                        <span className="menu-number">11</span> Multi Pitch
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">12</span> Multi Level
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">13</span> Exit Multi Mode
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">14</span> Dynamic Buttons
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">15</span> Delete Mix
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">16</span> Select Mix
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">17</span> Channel Assign
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">18</span> Decay/Tune Select
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">19</span> Loop/Truncate
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">20</span> Delete Sound
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">21</span> 1st Song/Step
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">22</span> MIDI Parameters
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">23</span> Special
-                      </div>
+                      <div className={`menu-column-led ${menu?.source === "setup" ? "active" : ""}`}></div>
+                      <div className="menu-column-btn" onClick={() => pressMenuButton("setup")}></div>
                     </div>
+                    <div className="menu-items">{renderMenuItems("setup")}</div>
                   </div>
                 </div>
                 <div className="menu-column-wrapper disk">
                   <div className="menu-title">Disk</div>
                   <div className="menu-content-row">
                     <div className="menu-column-controls-vertical">
-                      <div className="menu-column-led"></div>
-                      <div
-                        className="menu-column-btn"
-                        onClick={handleMenuColumnBtnClick}
-                      ></div>
-                    </div>
-                    <div className="menu-items">
-                      <div className="menu-item">
-                        <span className="menu-number">1</span> Save Sequences
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">2</span> Save Sounds
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">3</span> Load Sequences
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">4</span> Load Segment #
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">5</span> Load Sounds
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">6</span> Load Sound #
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">7</span> Catalog Sequences
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">8</span> Catalog Sounds
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">9</span> Format/Copy Software
-                      </div>
-                      <div className="menu-item">
-                        <span className="menu-number">0</span> Load Sequences and
-                        Sounds
-                      </div>
+                      <div className={`menu-column-led ${menu?.source === "disk" ? "active" : ""}`}></div>
+                      <div className="menu-column-btn" onClick={() => pressMenuButton("disk")}></div>
                     </div>
+                    <div className="menu-items">{renderMenuItems("disk")}</div>
                   </div>
                 </div>
                 <div className="menu-column sync">
                   <div className="menu-title">Sync</div>
                   <div className="menu-column-controls-inline">
-                    <div className="menu-column-led"></div>
-                    <div
-                      className="menu-column-btn"
-                      onClick={handleMenuColumnBtnClick}
-                    ></div>
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">1</span> Internal
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">2</span> MIDI
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">3</span> SMPTE
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">4</span> Click
+                    <div className={`menu-column-led ${menu?.source === "sync" ? "active" : ""}`}></div>
+                    <div className="menu-column-btn" onClick={() => pressMenuButton("sync")}></div>
                   </div>
+                  {/* The item LEDs show the clock being followed */}
+                  {renderMenuItems("sync", (number) => SYNC_MODES[number - 1] === syncMode)}
                 </div>
                 <div className="menu-column sample">
                   <div className="menu-title">Sample</div>
                   <div className="sample-controls">
-                    <div className="record-btn"></div>
+                    <div className="menu-column-controls-inline">
+                      <div className={`menu-column-led ${menu?.source === "sample" ? "active" : ""}`}></div>
+                      <div className="menu-column-btn" onClick={() => pressMenuButton("sample")}></div>
+                    </div>
+                    <div
+                      className={`record-btn ${captureStatus === "armed" || captureStatus === "recording" ? "armed" : ""}`}
+                      onClick={handleSampleRecordClick}
+                    ></div>
                     <div className="gain-section">
-                      <div className="knob"></div>
+                      <Knob value={inputGain} onChange={setInputGain} />
                       <span className="gain-label">Gain</span>
                     </div>
                   </div>
-                  <div className="menu-item">
-                    <span className="menu-number">1</span> VU Mode
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">2</span> Assign Voice
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">3</span> Level
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">4</span> Threshold Set
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">5</span> Sample Length
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">6</span> Re-Sample
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">7</span> Arm Sampling
-                  </div>
-                  <div className="menu-item">
-                    <span className="menu-number">8</span> Force Sampling
-                  </div>
+                  {renderMenuItems("sample")}
                 </div>
               </div>
 
@@ -414,33 +837,45 @@ export default function SP1200() {
                     <div className="prog-btn" onClick={handleProgBtnClick}></div>
                     <div className="prog-leds">
                       <div className="prog-led-row">
-                        <div className="prog-led active"></div>
+                        <div className={`prog-led ${inSong ? "active" : ""}`}></div>
                         <span className="prog-label">Song</span>
                       </div>
                       <div className="prog-led-row">
-                        <div className="prog-led"></div>
+                        <div className={`prog-led ${inSong ? "" : "active"}`}></div>
                         <span className="prog-label">Segment</span>
                       </div>
                     </div>
                   </div>
                   <div className="prog-unit">
                     <div className="btn-label-top">Trigger</div>
-                    <div className="prog-btn"></div>
+                    <div
+                      className="prog-btn"
+                      onClick={inSong ? undefined : handleMetronomeClick}
+                    ></div>
                     <div className="btn-label-bottom">Metronome</div>
                   </div>
                   <div className="prog-unit">
                     <div className="btn-label-top">Repeat</div>
-                    <div className="prog-btn"></div>
+                    <div
+                      className="prog-btn"
+                      onClick={inSong ? handleSongRepeat : handleSwingClick}
+                    ></div>
                     <div className="btn-label-bottom">Swing</div>
                   </div>
                   <div className="prog-unit">
                     <div className="btn-label-top">Subseq</div>
-                    <div className="prog-btn"></div>
+                    <div
+                      className="prog-btn"
+                      onClick={inSong ? handleSongSubseq : undefined}
+                    ></div>
                     <div className="btn-label-bottom">Copy</div>
                   </div>
                   <div className="prog-unit">
                     <div className="btn-label-top">End</div>
-                    <div className="prog-btn"></div>
+                    <div
+                      className="prog-btn"
+                      onClick={inSong ? handleSongEnd : undefined}
+                    ></div>
                     <div className="btn-label-bottom">
                       Time
                       <br />
@@ -449,7 +884,16 @@ export default function SP1200() {
                   </div>
                   <div className="prog-unit">
                     <div className="btn-label-top">Insert</div>
-                    <div className="prog-btn"></div>
+                    <div
+                      className="prog-btn"
+                      onClick={
+                        inSong
+                          ? handleSongInsert
+                          : stepCursor !== null
+                            ? handleStepInsert
+                            : handleSegmentLengthClick
+                      }
+                    ></div>
                     <div className="btn-label-bottom">
                       Segment
                       <br />
@@ -458,7 +902,14 @@ export default function SP1200() {
                   </div>
                   <div className="prog-unit">
                     <div className="btn-label-top">Delete</div>
-                    <div className="prog-btn"></div>
+                    <div
+                      className="prog-btn"
+                      onClick={inSong ? handleSongDelete : undefined}
+                      onPointerDown={inSong ? undefined : handleErasePress}
+                      onPointerUp={() => setEraseHeld(false)}
+                      onPointerLeave={() => setEraseHeld(false)}
+                      onPointerCancel={() => setEraseHeld(false)}
+                    ></div>
                     <div className="btn-label-bottom">Erase</div>
                   </div>
                   <div className="prog-unit">
@@ -467,7 +918,10 @@ export default function SP1200() {
                       <br />
                       Change
                     </div>
-                    <div className="prog-btn"></div>
+                    <div
+                      className="prog-btn"
+                      onClick={inSong ? openTempoChange : handleAutoCorrectClick}
+                    ></div>
                     <div className="btn-label-bottom">
                       Auto
                       <br />
@@ -480,7 +934,10 @@ export default function SP1200() {
                       <br />
                       Change
                     </div>
-                    <div className="prog-btn"></div>
+                    <div
+                      className="prog-btn"
+                      onClick={inSong ? undefined : handleStepProgramClick}
+                    ></div>
                     <div className="btn-label-bottom">
                       Step
                       <br />
@@ -498,17 +955,21 @@ export default function SP1200() {
                   <div className="perf-left">
                     <div className="perf-row">
                       <div className="perf-btn-spacer"></div>
-                      <div className="perf-led active"></div>
+                      <div
+                        className={`perf-led ${perfMode === "tuneDecay" ? "active" : ""}`}
+                      ></div>
                       <span className="perf-label">Tune/Decay</span>
                     </div>
                     <div className="perf-row">
                       <div className="perf-btn" onClick={handlePerfBtnClick}></div>
-                      <div className="perf-led"></div>
+                      <div
+                        className={`perf-led ${perfMode === "mix" ? "active" : ""}`}
+                      ></div>
                       <span className="perf-label">Mix</span>
                     </div>
                     <div className="perf-row">
                       <div className="perf-btn-spacer"></div>
-                      <div className="perf-led"></div>
+                      <div className={`perf-led ${multiMode ? "active" : ""}`}></div>
                       <span className="perf-label">Multi Mode</span>
                     </div>
                   </div>
@@ -538,12 +999,16 @@ export default function SP1200() {
                 <div className="bank-column">
                   <div className="bank-row">
                     <div className="perf-btn-spacer"></div>
-                    <div className="bank-led active"></div>
+                    <div
+                      className={`bank-led ${currentBank === "A" ? "active" : ""}`}
+                    ></div>
                     <span className="bank-label">A</span>
                   </div>
                   <div className="bank-row">
                     <div className="perf-btn-spacer"></div>
-                    <div className="bank-led"></div>
+                    <div
+                      className={`bank-led ${currentBank === "B" ? "active" : ""}`}
+                    ></div>
                     <span className="bank-label">B</span>
                   </div>
                   <div className="bank-btn-row">
@@ -551,12 +1016,16 @@ export default function SP1200() {
                   </div>
                   <div className="bank-row">
                     <div className="perf-btn-spacer"></div>
-                    <div className="bank-led"></div>
+                    <div
+                      className={`bank-led ${currentBank === "C" ? "active" : ""}`}
+                    ></div>
                     <span className="bank-label">C</span>
                   </div>
                   <div className="bank-row">
                     <div className="perf-btn-spacer"></div>
-                    <div className="bank-led"></div>
+                    <div
+                      className={`bank-led ${currentBank === "D" ? "active" : ""}`}
+                    ></div>
                     <span className="bank-label">D</span>
                   </div>
                 </div>
@@ -565,9 +1034,17 @@ export default function SP1200() {
                     <div className="pad-unit" key={i}>
                       <div
                         className={`pad ${dragOverPad === i ? "drag-over" : ""} ${
-                          loadedSamples[i] ? "has-sample" : ""
+                          loadedSamples[
+                            multiMode ? multiMode.soundIndex : getSoundIndex(currentBank, i)
+                          ]
+                            ? "has-sample"
+                            : ""
                         }`}
-                        onClick={() => handlePadClick(i)}
+                        onPointerDown={(e) => handlePadPress(e, i)}
+                        onPointerMove={(e) => handlePadMove(e, i)}
+                        onPointerUp={() => releasePad(i)}
+                        onPointerLeave={() => releasePad(i)}
+                        onPointerCancel={() => releasePad(i)}
                         onDragOver={(e) => handleDragOver(e, i)}
                         onDragLeave={handleDragLeave}
                         onDrop={(e) => handleDrop(e, i)}
@@ -592,25 +1069,42 @@ export default function SP1200() {
 
               {/* LCD Display */}
               <div className="lcd-display">
-                <div className="lcd-text">{lcdText}</div>
+                <div className="lcd-text">
+                  {lcd.lines.map((line, i) =>
+                    i === 1 && lcd.cursor !== null ? (
+                      <div key={i} className="lcd-line">
+                        {line.substring(0, lcd.cursor)}
+                        <span className="lcd-cursor">{line[lcd.cursor]}</span>
+                        {line.substring(lcd.cursor + 1)}
+                      </div>
+                    ) : (
+                      <div key={i} className="lcd-line">
+                        {line}
+                      </div>
+                    )
+                  )}
+                </div>
+                {loopEdit && editBuffer && currentEdit && (
+                  <WaveformView buffer={editBuffer} edit={currentEdit} selected={loopEdit.point} />
+                )}
               </div>
 
               {/* Tempo/Transport Row */}
               <div className="tempo-row">
                 <div className="transport-unit">
-                  <div className="transport-btn"></div>
+                  <div className="transport-btn" onClick={pressTempo}></div>
                   <div className="transport-label-bottom">Tempo</div>
                 </div>
                 <div className="transport-unit">
-                  <div className="transport-btn"></div>
+                  <div className="transport-btn" onClick={() => handleCursorMove(-1)}></div>
                   <div className="transport-label-bottom">◀</div>
                 </div>
                 <div className="transport-unit">
-                  <div className="transport-btn"></div>
+                  <div className="transport-btn" onClick={() => handleCursorMove(1)}></div>
                   <div className="transport-label-bottom">▶</div>
                 </div>
                 <div className="transport-unit">
-                  <div className="transport-btn enter-btn"></div>
+                  <div className="transport-btn enter-btn" onClick={handleEnterClick}></div>
                   <div className="transport-label-bottom">Enter</div>
                 </div>
               </div>
@@ -618,7 +1112,7 @@ export default function SP1200() {
               {/* Knobs */}
               <div className="knobs-row">
                 <div className="gain-section">
-                  <div className="knob"></div>
+                  <Knob value={masterVolume} onChange={setMasterVolume} />
                   <span className="knob-label">
                     Mix
                     <br />
@@ -626,7 +1120,7 @@ export default function SP1200() {
                   </span>
                 </div>
                 <div className="gain-section">
-                  <div className="knob"></div>
+                  <Knob value={metronomeVolume} onChange={setMetronomeVolume} />
                   <span className="knob-label">
                     Metronome
                     <br />
@@ -639,40 +1133,40 @@ export default function SP1200() {
               <div className="keypad">
                 <div className="key-unit">
                   <div className="key-label-top">1</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(1)}></div>
                 </div>
                 <div className="key-unit">
                   <div className="key-label-top">2</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(2)}></div>
                 </div>
                 <div className="key-unit">
                   <div className="key-label-top">3</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(3)}></div>
                 </div>
                 <div className="key-unit">
                   <div className="key-label-top">4</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(4)}></div>
                 </div>
                 <div className="key-unit">
                   <div className="key-label-top">5</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(5)}></div>
                 </div>
                 <div className="key-unit">
                   <div className="key-label-top">6</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(6)}></div>
                 </div>
                 <div className="key-unit">
                   <div className="key-label-top">7</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(7)}></div>
                   <div className="key-label-bottom">No</div>
                 </div>
                 <div className="key-unit">
                   <div className="key-label-top">8</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(8)}></div>
                 </div>
                 <div className="key-unit">
                   <div className="key-label-top">9</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(9)}></div>
                   <div className="key-label-bottom">Yes</div>
                 </div>
               </div>
@@ -681,7 +1175,7 @@ export default function SP1200() {
               <div className="zero-row">
                 <div className="key-unit">
                   <div className="key-label-top">0</div>
-                  <div className="key-btn"></div>
+                  <div className="key-btn" onClick={() => pressKeypad(0)}></div>
                 </div>
               </div>
 
@@ -691,15 +1185,30 @@ export default function SP1200() {
             {/* Additional Controls */}
             <div className="additional-controls">
               <div className="pad-unit">
-                <div className="pad"></div>
+                <div
+                  className="pad"
+                  onPointerDown={() => {
+                    tapPad();
+                    setRepeatHeld(true);
+                  }}
+                  onPointerUp={() => setRepeatHeld(false)}
+                  onPointerLeave={() => setRepeatHeld(false)}
+                  onPointerCancel={() => setRepeatHeld(false)}
+                ></div>
                 <span className="pad-label">Tap/Repeat</span>
               </div>
               <div className="pad-unit">
-                <div className="pad"></div>
+                <div
+                  className={`pad ${isPlaying ? "running" : ""}`}
+                  onClick={handleRunStopClick}
+                ></div>
                 <span className="pad-label">Run/Stop</span>
               </div>
               <div className="gain-section">
-                <div className="record-btn"></div>
+                <div
+                  className={`record-btn ${isRecording ? "armed" : ""}`}
+                  onClick={handleRecordClick}
+                ></div>
                 <span className="pad-label">Record/Edit</span>
               </div>
             </div>
@@ -0,0 +1,145 @@
+"use client";
+
+import { useRef } from "react";
+import { useSP1200Store } from "@/store/sp1200Store";
+import { PADS_PER_BANK, formatSoundName, getSoundIndex } from "@/lib/audio/banks";
+import { PPQN, createPattern, patternLengthTicks } from "@/lib/sequencer/pattern";
+import { getStepTicks } from "@/lib/sequencer/timing";
+
+interface StepGridProps {
+  onClose: () => void;
+}
+
+const VELOCITY_DRAG = 100; // pixels of drag from silent to full velocity
+const MIN_VELOCITY = 1 / 127;
+
+interface VelocityDrag {
+  soundIndex: number;
+  tick: number;
+  startY: number;
+  velocity: number;
+  moved: boolean;
+}
+
+/**
+ * Step grid - the current segment as the eight pads of the current bank by
+ * steps of the auto-correct division. Click a cell to add a hit, click a
+ * hit to remove it, or drag up/down on it to set its velocity. Clicking a
+ * step number puts the Step Program cursor there.
+ */
+export default function StepGrid({ onClose }: StepGridProps) {
+  const {
+    patterns,
+    currentPattern,
+    currentBank,
+    quantize,
+    stepCursor,
+    setStepCursor,
+    addPatternEvent,
+    removePatternEvents,
+    setPatternEventVelocity,
+  } = useSP1200Store();
+  const dragRef = useRef<VelocityDrag | null>(null);
+
+  const pattern = patterns[currentPattern] ?? createPattern();
+  const step = getStepTicks(quantize);
+  const stepsPerBeat = PPQN / step;
+  const ticks = Array.from(
+    { length: Math.ceil(patternLengthTicks(pattern) / step) },
+    (_, i) => i * step
+  );
+
+  // Loudest hit of a sound within a step, or null for none
+  const getStepVelocity = (soundIndex: number, tick: number): number | null => {
+    const hits = pattern.events.filter(
+      (e) => e.soundIndex === soundIndex && e.tick >= tick && e.tick < tick + step
+    );
+    return hits.length > 0 ? Math.max(...hits.map((e) => e.velocity ?? 1)) : null;
+  };
+
+  const handleCellDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    soundIndex: number,
+    tick: number
+  ) => {
+    const velocity = getStepVelocity(soundIndex, tick);
+    if (velocity === null) {
+      addPatternEvent({ tick, soundIndex });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { soundIndex, tick, startY: e.clientY, velocity, moved: false };
+  };
+
+  const handleCellMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const distance = drag.startY - e.clientY;
+    if (!drag.moved && Math.abs(distance) < 3) return;
+    drag.moved = true;
+    const velocity = Math.max(MIN_VELOCITY, Math.min(1, drag.velocity + distance / VELOCITY_DRAG));
+    setPatternEventVelocity(drag.tick, drag.tick + step, drag.soundIndex, velocity);
+  };
+
+  // A click without a drag removes the hit
+  const handleCellUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) removePatternEvents(drag.tick, drag.tick + step, drag.soundIndex);
+  };
+
+  const columns = { gridTemplateColumns: `24px repeat(${ticks.length}, 14px)` };
+  const isCursor = (tick: number) => stepCursor !== null && stepCursor >= tick && stepCursor < tick + step;
+
+  return (
+    <div className="bounce-panel step-grid-panel">
+      <div className="catalog-header">
+        <span>SEG {String(currentPattern).padStart(2, "0")} STEPS</span>
+        <button className="catalog-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      <div className="step-grid" style={columns}>
+        <span />
+        {ticks.map((tick, i) => (
+          <span
+            key={tick}
+            className={`step-number ${isCursor(tick) ? "cursor" : ""}`}
+            onClick={() => setStepCursor(tick)}
+          >
+            {i % stepsPerBeat === 0 ? i / stepsPerBeat + 1 : ""}
+          </span>
+        ))}
+        {Array.from({ length: PADS_PER_BANK }, (_, pad) => {
+          const soundIndex = getSoundIndex(currentBank, pad);
+          return [
+            <span key={`label-${pad}`} className="step-label">
+              {formatSoundName(soundIndex)}
+            </span>,
+            ...ticks.map((tick, i) => {
+              const velocity = getStepVelocity(soundIndex, tick);
+              return (
+                <div
+                  key={`${pad}-${tick}`}
+                  className={`step-cell ${i % stepsPerBeat === 0 ? "beat" : ""} ${
+                    isCursor(tick) ? "cursor" : ""
+                  }`}
+                  onPointerDown={(e) => handleCellDown(e, soundIndex, tick)}
+                  onPointerMove={handleCellMove}
+                  onPointerUp={handleCellUp}
+                  onPointerCancel={() => {
+                    dragRef.current = null;
+                  }}
+                >
+                  {velocity !== null && (
+                    <div className="step-velocity" style={{ height: `${velocity * 100}%` }} />
+                  )}
+                </div>
+              );
+            }),
+          ];
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useSP1200Store } from "@/store/sp1200Store";
+import { CLICKS_PER_BEAT_OPTIONS } from "@/lib/sync/sources";
+import { FRAME_RATES, FrameRate, formatTimecode, parseTimecode } from "@/lib/sync/timecode";
+
+interface SyncPanelProps {
+  onClose: () => void;
+}
+
+const FRAME_RATE_LABELS: Record<FrameRate, string> = {
+  "24": "24 fps",
+  "25": "25 fps",
+  "30df": "29.97 drop",
+  "30": "30 fps",
+};
+
+/**
+ * Sync panel - settings for the click and SMPTE sources and the click out
+ */
+export default function SyncPanel({ onClose }: SyncPanelProps) {
+  const { syncSettings, setSyncSettings } = useSP1200Store();
+
+  // Offset is applied on blur; malformed text reverts
+  const handleOffsetBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const timecode = parseTimecode(e.target.value);
+    if (timecode) {
+      setSyncSettings({ smpteOffset: timecode });
+    } else {
+      e.target.value = formatTimecode(syncSettings.smpteOffset);
+    }
+  };
+
+  return (
+    <div className="bounce-panel sync-panel">
+      <div className="catalog-header">
+        <span>SYNC</span>
+        <button className="catalog-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      <label>
+        Input channel
+        <select
+          value={syncSettings.inputChannel}
+          onChange={(e) => setSyncSettings({ inputChannel: Number(e.target.value) })}
+        >
+          <option value={0}>Left</option>
+          <option value={1}>Right</option>
+        </select>
+      </label>
+      <label>
+        Clicks per beat
+        <select
+          value={syncSettings.clicksPerBeat}
+          onChange={(e) => setSyncSettings({ clicksPerBeat: Number(e.target.value) })}
+        >
+          {CLICKS_PER_BEAT_OPTIONS.map((clicks) => (
+            <option key={clicks} value={clicks}>
+              {clicks}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Click threshold
+        <input
+          type="range"
+          min={0.05}
+          max={1}
+          step={0.05}
+          value={syncSettings.clickThreshold}
+          onChange={(e) => setSyncSettings({ clickThreshold: Number(e.target.value) })}
+        />
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={syncSettings.clickOut}
+          onChange={(e) => setSyncSettings({ clickOut: e.target.checked })}
+        />
+        Click track out
+      </label>
+      <label>
+        SMPTE rate
+        <select
+          value={syncSettings.frameRate}
+          onChange={(e) => setSyncSettings({ frameRate: e.target.value as FrameRate })}
+        >
+          {FRAME_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {FRAME_RATE_LABELS[rate]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        SMPTE offset
+        <input
+          key={formatTimecode(syncSettings.smpteOffset)}
+          type="text"
+          defaultValue={formatTimecode(syncSettings.smpteOffset)}
+          onBlur={handleOffsetBlur}
+        />
+      </label>
+    </div>
+  );
+}
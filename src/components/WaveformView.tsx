@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { EditPoint, SampleEdit } from "@/lib/audio/sampleEdit";
+
+interface WaveformViewProps {
+  buffer: AudioBuffer;
+  edit: SampleEdit;
+  selected: EditPoint;
+}
+
+const WIDTH = 240;
+const HEIGHT = 48;
+const WAVE_COLOR = "#22cc55";
+const DIM_COLOR = "#0f5a2a";
+const MARKER_COLOR = "#ffffff";
+const LOOP_COLOR = "#ffcc33";
+
+/**
+ * Loop/Truncate waveform - peak view of the sound with start, end and loop markers.
+ * Audio outside the start/end region is drawn dimmed.
+ */
+export default function WaveformView({ buffer, edit, selected }: WaveformViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    const data = buffer.getChannelData(0);
+    const framesPerPixel = data.length / WIDTH;
+    const mid = HEIGHT / 2;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+    for (let x = 0; x < WIDTH; x++) {
+      const from = Math.floor(x * framesPerPixel);
+      const to = Math.max(from + 1, Math.floor((x + 1) * framesPerPixel));
+      let min = 0;
+      let max = 0;
+      for (let i = from; i < to && i < data.length; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+      const inRegion = from >= edit.start && from < edit.end;
+      ctx.fillStyle = inRegion ? WAVE_COLOR : DIM_COLOR;
+      ctx.fillRect(x, mid - max * mid, 1, Math.max(1, (max - min) * mid));
+    }
+
+    const drawMarker = (frame: number, color: string, point: EditPoint) => {
+      const x = Math.min(WIDTH - 1, Math.round(frame / framesPerPixel));
+      ctx.fillStyle = color;
+      ctx.globalAlpha = point === selected ? 1 : 0.5;
+      ctx.fillRect(x, 0, 1, HEIGHT);
+      ctx.globalAlpha = 1;
+    };
+
+    drawMarker(edit.start, MARKER_COLOR, "start");
+    drawMarker(edit.end, MARKER_COLOR, "end");
+    if (edit.loop !== null) drawMarker(edit.loop, LOOP_COLOR, "loop");
+  }, [buffer, edit, selected]);
+
+  return <canvas ref={canvasRef} className="waveform-view" width={WIDTH} height={HEIGHT} />;
+}
@@ -1,30 +1,77 @@
 /**
  * SP-1200 Audio Engine
- * Handles AudioContext, sample loading, and playback with bitcrusher effect
+ * Handles AudioContext, sample loading, and playback with bitcrusher effect.
+ * In emulation mode sounds play from 26.04 kHz / 12-bit copies through the
+ * original's channel filters; in creative mode the free-form crusher is used.
  */
 
-export interface AudioEngineState {
-  masterVolume: number;
-  bitDepth: number;
-  reduction: number;
-  mix: number;
-}
+import { SOUND_COUNT, formatSoundName, getSoundPad } from './banks';
+import { ChannelStrip, createDefaultChannels } from './mixer';
+import { AudioEngineState, OutputGraph, Voice, getVoiceLength } from './OutputGraph';
+import {
+  SampleEdit,
+  createSampleEdit,
+  extractRegion,
+  getLoopOffset,
+} from './sampleEdit';
+import { SP_SAMPLE_RATE, convertToSP1200, renderDropSample } from './emulation';
+import {
+  DEFAULT_VOICE_PARAMS,
+  TriggerOptions,
+  VelocityResponse,
+  VoiceParams,
+  DEFAULT_VELOCITY_RESPONSE,
+  decayToTimeConstant,
+  tuneToPlaybackRate,
+  velocityToDecay,
+  velocityToGain,
+  velocityToTuneOffset,
+} from './voice';
+import {
+  DEFAULT_POLYPHONY,
+  DEFAULT_VOICE_ALLOCATION,
+  VoiceAllocation,
+  VoiceAllocator,
+  VoiceSettings,
+} from './voices';
+
+export type { AudioEngineState } from './OutputGraph';
 
 type StateSubscriber = (state: AudioEngineState) => void;
 
+/**
+ * A sound hit at a time on the render timeline (seconds)
+ */
+export interface RenderEvent extends TriggerOptions {
+  time: number;
+  soundIndex: number;
+}
+
 class AudioEngine {
   private ctx: AudioContext | null = null;
-  private masterGain: GainNode | null = null;
-  private bitcrusherNode: AudioWorkletNode | null = null;
-  private samples: Map<number, AudioBuffer> = new Map();
+  private graph: OutputGraph | null = null;
+  private samples: Map<number, AudioBuffer> = new Map(); // sound index -> buffer
+  private spSamples: Map<number, Float32Array> = new Map(); // sound index -> 26.04 kHz 12-bit
+  private pitchCache: Map<string, AudioBuffer> = new Map(); // "sound:tune:rate" -> rendered buffer
+  private edits: Map<number, SampleEdit> = new Map(); // sound index -> loop/truncate points
+  private editedBuffers: Map<number, AudioBuffer> = new Map(); // sound index -> edited region
+  private voiceParams: Map<number, VoiceParams> = new Map(); // sound index -> params
+  private channels: ChannelStrip[] = createDefaultChannels();
+  private channelAssign: Map<number, number> = new Map(); // sound index -> channel
+  private velocityResponse: VelocityResponse = DEFAULT_VELOCITY_RESPONSE;
+  private voiceSettings: VoiceSettings = { polyphony: DEFAULT_POLYPHONY, allocations: new Map() };
+  private voices = new VoiceAllocator(() => this.voiceSettings); // live voices
+  private clickOutput = false; // Sync click out on its own output
   private isInitialized = false;
   private stateSubscribers: StateSubscriber[] = [];
 
   private state: AudioEngineState = {
     masterVolume: 0.8,
+    metronomeVolume: 0.5,
     bitDepth: 12,
     reduction: 1,
     mix: 1,
+    samplingMode: 'creative',
   };
 
   /**
@@ -38,25 +85,10 @@ class AudioEngine {
     }
 
     try {
-      // Create AudioContext
+      // Create AudioContext and the output chain (loads the bitcrusher worklet)
       this.ctx = new AudioContext();
-
-      // Load bitcrusher worklet
-      await this.ctx.audioWorklet.addModule('/worklets/bitcrusher.js');
-
-      // Create bitcrusher node
-      this.bitcrusherNode = new AudioWorkletNode(this.ctx, 'bitcrusher-processor');
-
-      // Create master gain
-      this.masterGain = this.ctx.createGain();
-      this.masterGain.gain.value = this.state.masterVolume;
-
-      // Connect: bitcrusher -> masterGain -> destination
-      this.bitcrusherNode.connect(this.masterGain);
-      this.masterGain.connect(this.ctx.destination);
-
-      // Apply initial state
-      this.applyState();
+      this.graph = await OutputGraph.create(this.ctx, this.state, this.channels);
+      this.graph.setClickOutput(this.clickOutput);
 
       this.isInitialized = true;
       console.log('[AudioEngine] Initialized successfully');
@@ -77,18 +109,21 @@ class AudioEngine {
   }
 
   /**
-   * Load a sample from a File (drag & drop)
+   * Load a sample from a File (drag & drop) into a sound slot (0-31)
    */
-  async loadSample(padIndex: number, file: File): Promise<void> {
+  async loadSample(soundIndex: number, file: File): Promise<void> {
     if (!this.ctx) {
       throw new Error('AudioEngine not initialized');
     }
+    if (soundIndex < 0 || soundIndex >= SOUND_COUNT) {
+      throw new Error(`Invalid sound index ${soundIndex}`);
+    }
 
     try {
       const arrayBuffer = await file.arrayBuffer();
       const audioBuffer = await this.ctx.decodeAudioData(arrayBuffer);
-      this.samples.set(padIndex, audioBuffer);
-      console.log(`[AudioEngine] Sample loaded for pad ${padIndex + 1}: ${file.name}`);
+      this.setSampleBuffer(soundIndex, audioBuffer);
+      console.log(`[AudioEngine] Sample loaded for ${formatSoundName(soundIndex)}: ${file.name}`);
     } catch (error) {
       console.error(`[AudioEngine] Failed to load sample:`, error);
       throw error;
@@ -96,82 +131,366 @@ class AudioEngine {
   }
 
   /**
-   * Trigger a pad to play its sample
+   * Assign a decoded buffer to a sound slot (0-31), e.g. from live sampling
+   */
+  setSampleBuffer(soundIndex: number, buffer: AudioBuffer): void {
+    if (soundIndex < 0 || soundIndex >= SOUND_COUNT) {
+      throw new Error(`Invalid sound index ${soundIndex}`);
+    }
+    this.samples.set(soundIndex, buffer);
+    this.spSamples.set(soundIndex, convertToSP1200(buffer));
+    this.edits.delete(soundIndex);
+    this.clearRenderCache(soundIndex);
+  }
+
+  /**
+   * Empty a sound slot
+   */
+  clearSample(soundIndex: number): void {
+    this.samples.delete(soundIndex);
+    this.spSamples.delete(soundIndex);
+    this.edits.delete(soundIndex);
+    this.clearRenderCache(soundIndex);
+  }
+
+  /**
+   * Build an AudioBuffer from raw channel data (e.g. from a project file)
+   */
+  createSampleBuffer(data: Float32Array[], sampleRate: number): AudioBuffer {
+    if (!this.ctx) {
+      throw new Error('AudioEngine not initialized');
+    }
+    const buffer = this.ctx.createBuffer(data.length, Math.max(1, data[0]?.length ?? 0), sampleRate);
+    data.forEach((channel, c) => buffer.getChannelData(c).set(channel));
+    return buffer;
+  }
+
+  /**
+   * Get the full (unedited) buffer of a sound slot
+   */
+  getSampleBuffer(soundIndex: number): AudioBuffer | null {
+    return this.samples.get(soundIndex) ?? null;
+  }
+
+  /**
+   * Set loop/truncate points for a sound slot (null = play the whole buffer)
+   */
+  setSampleEdit(soundIndex: number, edit: SampleEdit | null): void {
+    if (edit) {
+      this.edits.set(soundIndex, { ...edit });
+    } else {
+      this.edits.delete(soundIndex);
+    }
+    this.clearRenderCache(soundIndex);
+  }
+
+  /**
+   * Destructive truncate: keep only the region between the start and end
+   * points, freeing the rest. Returns the edit that applies to the new
+   * buffer (loop point and reverse are kept).
    */
-  triggerPad(padIndex: number): void {
-    if (!this.ctx || !this.bitcrusherNode) {
+  truncateSample(soundIndex: number): SampleEdit | null {
+    const buffer = this.samples.get(soundIndex);
+    const edit = this.edits.get(soundIndex);
+    if (!this.ctx || !buffer || !edit) return null;
+
+    const length = edit.end - edit.start;
+    const truncated = this.ctx.createBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      truncated.getChannelData(c).set(extractRegion(buffer.getChannelData(c), edit.start, edit.end, false));
+    }
+
+    const newEdit: SampleEdit = {
+      ...createSampleEdit(length),
+      loop: edit.loop === null ? null : edit.loop - edit.start,
+      reverse: edit.reverse,
+    };
+    this.setSampleBuffer(soundIndex, truncated);
+    this.setSampleEdit(soundIndex, newEdit);
+    console.log(`[AudioEngine] Truncated ${formatSoundName(soundIndex)} to ${length} frames`);
+    return newEdit;
+  }
+
+  /**
+   * Trigger a sound slot (0-31) to play its sample
+   * @param when AudioContext time to start at (0 = immediately)
+   * @param options per-trigger tune offset and level (multi mode) and velocity
+   */
+  triggerSound(soundIndex: number, when = 0, options: TriggerOptions = {}): void {
+    if (!this.ctx || !this.graph) {
       console.warn('[AudioEngine] Not initialized');
       return;
     }
 
-    const buffer = this.samples.get(padIndex);
-    if (!buffer) {
-      console.warn(`[AudioEngine] No sample loaded for pad ${padIndex + 1}`);
+    const voice = this.createVoice(soundIndex, options, this.ctx.sampleRate);
+    if (!voice) {
+      console.warn(`[AudioEngine] No sample loaded for ${formatSoundName(soundIndex)}`);
       return;
     }
 
-    // Create buffer source
-    const source = this.ctx.createBufferSource();
-    source.buffer = buffer;
+    // Play immediately or at the scheduled audio time
+    this.playVoice(this.graph, this.voices, soundIndex, voice, Math.max(when, this.ctx.currentTime));
+    console.log(`[AudioEngine] Triggered ${formatSoundName(soundIndex)}`);
+  }
+
+  /**
+   * Render events through a copy of the output chain in an OfflineAudioContext,
+   * faster than real time. `channels` overrides the live mixer (e.g. for stems)
+   * and `state` the master and crusher settings (e.g. unity gain for Re-Sample).
+   * The sampling mode is always the live one, which the voices are made in.
+   * @param duration seconds to render
+   */
+  async renderOffline(
+    events: RenderEvent[],
+    duration: number,
+    sampleRate: number,
+    channels: ChannelStrip[] = this.channels,
+    state: AudioEngineState = this.state
+  ): Promise<AudioBuffer> {
+    const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(duration * sampleRate)), sampleRate);
+    const graph = await OutputGraph.create(
+      ctx,
+      { ...state, samplingMode: this.state.samplingMode },
+      channels
+    );
+    const voices = new VoiceAllocator(() => this.voiceSettings);
 
-    // Connect source -> bitcrusher
-    source.connect(this.bitcrusherNode);
+    for (const event of events) {
+      const voice = this.createVoice(event.soundIndex, event, sampleRate);
+      if (voice) this.playVoice(graph, voices, event.soundIndex, voice, event.time);
+    }
 
-    // Play immediately
-    source.start(0);
-    console.log(`[AudioEngine] Triggered pad ${padIndex + 1}`);
+    const rendered = await ctx.startRendering();
+    console.log(`[AudioEngine] Rendered ${duration.toFixed(2)}s offline at ${sampleRate} Hz`);
+    return rendered;
   }
 
   /**
-   * Update state and apply to audio nodes with smoothing
+   * Seconds a hit of a sound plays for with its tune, decay and loop
+   * (0 for an empty slot)
    */
-  setState(newState: Partial<AudioEngineState>): void {
-    this.state = { ...this.state, ...newState };
-    this.applyState();
-    this.notifySubscribers();
+  getHitLength(soundIndex: number, options: TriggerOptions = {}): number {
+    const voice = this.createVoice(soundIndex, options, this.ctx?.sampleRate ?? SP_SAMPLE_RATE);
+    return voice ? getVoiceLength(voice) : 0;
+  }
+
+  /**
+   * Start a voice, first cutting the voices the hit chokes or steals
+   */
+  private playVoice(
+    graph: OutputGraph,
+    voices: VoiceAllocator,
+    soundIndex: number,
+    voice: Voice,
+    time: number
+  ): void {
+    voices.claim(soundIndex, time).forEach((playing) => playing.stop(time));
+    const handle = graph.playVoice(voice, time, () => voices.release(handle));
+    voices.add(soundIndex, handle);
   }
 
   /**
-   * Apply current state to audio nodes with smoothing
+   * Resolve a hit of a sound slot into a voice for an output sample rate.
+   * Emulation plays a pre-rendered drop-sample buffer, creative mode
+   * pitches the original by playback rate. Returns null for an empty slot.
    */
-  private applyState(): void {
-    if (!this.ctx || !this.bitcrusherNode || !this.masterGain) return;
+  private createVoice(soundIndex: number, options: TriggerOptions, sampleRate: number): Voice | null {
+    const buffer = this.samples.get(soundIndex);
+    if (!buffer) return null;
+
+    const params = this.getVoiceParams(soundIndex);
+    const velocity = options.velocity ?? 1;
+    const velocityTune = this.velocityResponse.pitch ? velocityToTuneOffset(velocity) : 0;
+    const tune = params.tune + (options.tuneOffset ?? 0) + velocityTune;
+    const decay = this.velocityResponse.decay ? velocityToDecay(params.decay, velocity) : params.decay;
+    const emulation = this.state.samplingMode === 'emulation';
+    const playbackRate = tuneToPlaybackRate(tune);
+    const voiceBuffer = emulation
+      ? (this.getEmulatedBuffer(soundIndex, tune, sampleRate) ?? buffer)
+      : (this.getEditedBuffer(soundIndex) ?? buffer);
+
+    // Loop point: emulated buffers are already pitched, so their
+    // loop offset scales with the playback rate
+    const edit = this.edits.get(soundIndex);
+    const loopOffset = edit ? getLoopOffset(edit) : null;
+    let loopStart: number | null = null;
+    if (loopOffset !== null) {
+      const loopSeconds = loopOffset / buffer.sampleRate;
+      loopStart = emulation ? loopSeconds / playbackRate : loopSeconds;
+    }
 
-    const currentTime = this.ctx.currentTime;
-    const smoothTime = 0.02; // 20ms smoothing to avoid zipper noise
+    return {
+      buffer: voiceBuffer,
+      playbackRate: emulation ? 1 : playbackRate,
+      loopStart,
+      level: (options.level ?? 1) * velocityToGain(velocity),
+      timeConstant: decayToTimeConstant(decay),
+      channel: this.getChannelForSound(soundIndex),
+    };
+  }
 
-    // Master volume with smoothing
-    this.masterGain.gain.cancelScheduledValues(currentTime);
-    this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, currentTime);
-    this.masterGain.gain.linearRampToValueAtTime(
-      this.state.masterVolume,
-      currentTime + smoothTime
-    );
+  /**
+   * Get (and cache) the 26.04 kHz drop-sample render of a sound at a tune
+   */
+  private getEmulatedBuffer(soundIndex: number, tune: number, sampleRate: number): AudioBuffer | null {
+    const data = this.spSamples.get(soundIndex);
+    const original = this.samples.get(soundIndex);
+    if (!data || !original) return null;
+
+    const key = `${soundIndex}:${tune}:${sampleRate}`;
+    let buffer = this.pitchCache.get(key);
+    if (!buffer) {
+      // Apply the edit region in 26.04 kHz frames
+      const edit = this.edits.get(soundIndex);
+      const ratio = original.sampleRate / SP_SAMPLE_RATE;
+      const region = edit
+        ? extractRegion(data, Math.floor(edit.start / ratio), Math.floor(edit.end / ratio), edit.reverse)
+        : data;
+      const rendered = renderDropSample(region, tuneToPlaybackRate(tune), sampleRate);
+      buffer = new AudioBuffer({ numberOfChannels: 1, length: Math.max(1, rendered.length), sampleRate });
+      buffer.getChannelData(0).set(rendered);
+      this.pitchCache.set(key, buffer);
+    }
+    return buffer;
+  }
 
-    // Bitcrusher parameters
-    const bitDepthParam = this.bitcrusherNode.parameters.get('bitDepth');
-    const reductionParam = this.bitcrusherNode.parameters.get('reduction');
-    const mixParam = this.bitcrusherNode.parameters.get('mix');
+  /**
+   * Get (and cache) the edited region of a sound for creative mode.
+   * Returns null when the sound has no edit.
+   */
+  private getEditedBuffer(soundIndex: number): AudioBuffer | null {
+    const original = this.samples.get(soundIndex);
+    const edit = this.edits.get(soundIndex);
+    if (!original || !edit) return null;
 
-    if (bitDepthParam) {
-      bitDepthParam.cancelScheduledValues(currentTime);
-      bitDepthParam.setValueAtTime(bitDepthParam.value, currentTime);
-      bitDepthParam.linearRampToValueAtTime(this.state.bitDepth, currentTime + smoothTime);
+    let buffer = this.editedBuffers.get(soundIndex);
+    if (!buffer) {
+      buffer = new AudioBuffer({
+        numberOfChannels: original.numberOfChannels,
+        length: edit.end - edit.start,
+        sampleRate: original.sampleRate,
+      });
+      for (let c = 0; c < original.numberOfChannels; c++) {
+        buffer
+          .getChannelData(c)
+          .set(extractRegion(original.getChannelData(c), edit.start, edit.end, edit.reverse));
+      }
+      this.editedBuffers.set(soundIndex, buffer);
     }
+    return buffer;
+  }
+
+  private clearRenderCache(soundIndex: number): void {
+    for (const key of this.pitchCache.keys()) {
+      if (key.startsWith(`${soundIndex}:`)) this.pitchCache.delete(key);
+    }
+    this.editedBuffers.delete(soundIndex);
+  }
+
+  /**
+   * Play a metronome click (short sine blip) at an audio time
+   * @param accent true for the downbeat of a bar
+   */
+  triggerClick(when: number, accent = false): void {
+    if (!this.ctx || !this.graph) return;
+    this.graph.playClick(Math.max(when, this.ctx.currentTime), accent);
+  }
+
+  /**
+   * Play a click track pulse (Sync click out) at an audio time
+   */
+  triggerPulse(when: number): void {
+    if (!this.ctx || !this.graph) return;
+    this.graph.playPulse(Math.max(when, this.ctx.currentTime));
+  }
+
+  /**
+   * Give the click track its own output (the last of an interface with
+   * more than two) while Sync click out is on
+   */
+  setClickOutput(enabled: boolean): void {
+    this.clickOutput = enabled;
+    this.graph?.setClickOutput(enabled);
+  }
+
+  /**
+   * Set tune/decay for a sound slot. Applies to the next trigger.
+   */
+  setVoiceParams(soundIndex: number, params: Partial<VoiceParams>): void {
+    this.voiceParams.set(soundIndex, { ...this.getVoiceParams(soundIndex), ...params });
+  }
+
+  getVoiceParams(soundIndex: number): VoiceParams {
+    return this.voiceParams.get(soundIndex) ?? DEFAULT_VOICE_PARAMS;
+  }
+
+  /**
+   * Set what velocity changes besides level. Applies to the next trigger.
+   */
+  setVelocityResponse(response: VelocityResponse): void {
+    this.velocityResponse = { ...response };
+  }
+
+  /**
+   * Number of voices that play at once; further hits steal the oldest
+   */
+  setPolyphony(voices: number): void {
+    this.voiceSettings.polyphony = voices;
+  }
 
-    if (reductionParam) {
-      reductionParam.cancelScheduledValues(currentTime);
-      reductionParam.setValueAtTime(reductionParam.value, currentTime);
-      reductionParam.linearRampToValueAtTime(this.state.reduction, currentTime + smoothTime);
+  /**
+   * Set mono/poly and the choke group of a sound slot.
+   * null restores the default: poly, no choke group.
+   */
+  setVoiceAllocation(soundIndex: number, allocation: VoiceAllocation | null): void {
+    if (allocation === null) {
+      this.voiceSettings.allocations.delete(soundIndex);
+    } else {
+      this.voiceSettings.allocations.set(soundIndex, { ...allocation });
     }
+  }
 
-    if (mixParam) {
-      mixParam.cancelScheduledValues(currentTime);
-      mixParam.setValueAtTime(mixParam.value, currentTime);
-      mixParam.linearRampToValueAtTime(this.state.mix, currentTime + smoothTime);
+  getVoiceAllocation(soundIndex: number): VoiceAllocation {
+    return this.voiceSettings.allocations.get(soundIndex) ?? DEFAULT_VOICE_ALLOCATION;
+  }
+
+  /**
+   * Replace all channel strip settings (e.g. when recalling a mix)
+   */
+  setChannels(channels: ChannelStrip[]): void {
+    this.channels = channels.map((ch) => ({ ...ch }));
+    this.graph?.setChannels(this.channels);
+  }
+
+  getChannels(): ChannelStrip[] {
+    return this.channels.map((ch) => ({ ...ch }));
+  }
+
+  /**
+   * Assign a sound slot to an output channel (Set-up 17).
+   * null restores the default: the channel of the sound's pad.
+   */
+  setChannelAssign(soundIndex: number, channel: number | null): void {
+    if (channel === null) {
+      this.channelAssign.delete(soundIndex);
+    } else {
+      this.channelAssign.set(soundIndex, channel);
     }
   }
 
+  getChannelForSound(soundIndex: number): number {
+    return this.channelAssign.get(soundIndex) ?? getSoundPad(soundIndex);
+  }
+
+  /**
+   * Update state and apply to audio nodes with smoothing
+   */
+  setState(newState: Partial<AudioEngineState>): void {
+    this.state = { ...this.state, ...newState };
+    this.graph?.setState(this.state);
+    this.notifySubscribers();
+  }
+
   /**
    * Get current state
    */
@@ -194,10 +513,24 @@ class AudioEngine {
   }
 
   /**
-   * Check if a pad has a sample loaded
+   * Check if a sound slot has a sample loaded
+   */
+  hasSample(soundIndex: number): boolean {
+    return this.samples.has(soundIndex);
+  }
+
+  /**
+   * The live AudioContext (null before init)
+   */
+  get context(): AudioContext | null {
+    return this.ctx;
+  }
+
+  /**
+   * Current AudioContext time in seconds (0 before init)
    */
-  hasSample(padIndex: number): boolean {
-    return this.samples.has(padIndex);
+  get currentTime(): number {
+    return this.ctx ? this.ctx.currentTime : 0;
   }
 
   /**
@@ -0,0 +1,223 @@
+/**
+ * SP-1200 Input Capture
+ * Live sampling from a microphone/line input (or a generated test signal)
+ * through an AudioWorklet recorder with input gain, metering, threshold arm
+ * and forced start.
+ */
+
+import { audioEngine } from './AudioEngine';
+
+export type CaptureSource = 'device' | 'test';
+export type CaptureStatus = 'closed' | 'monitoring' | 'armed' | 'recording';
+
+export const MAX_SAMPLE_SECONDS = 2.5; // longest single sound on the original
+
+export type CaptureEvent =
+  | { type: 'level'; peak: number }
+  | { type: 'status'; status: CaptureStatus }
+  | { type: 'complete'; buffer: AudioBuffer };
+
+type CaptureListener = (event: CaptureEvent) => void;
+
+type RecorderMessage =
+  | { type: 'level'; peak: number }
+  | { type: 'started' }
+  | { type: 'complete'; data: Float32Array };
+
+class InputCapture {
+  private stream: MediaStream | null = null;
+  private sourceNodes: AudioNode[] = [];
+  private inputGain: GainNode | null = null;
+  private recorderNode: AudioWorkletNode | null = null;
+  private workletLoaded = false;
+  private status: CaptureStatus = 'closed';
+  private gain = 1;
+  private listeners: CaptureListener[] = [];
+
+  /**
+   * Open the sampling input and start metering.
+   * 'test' feeds a pulsing sawtooth instead of a real device.
+   */
+  async open(source: CaptureSource = 'device'): Promise<void> {
+    const ctx = audioEngine.context;
+    if (!ctx) {
+      throw new Error('AudioEngine not initialized');
+    }
+    if (this.status !== 'closed') {
+      this.close();
+    }
+
+    if (!this.workletLoaded) {
+      await ctx.audioWorklet.addModule('/worklets/recorder.js');
+      this.workletLoaded = true;
+    }
+
+    // The device first: if access is denied there is nothing to undo
+    if (source === 'device') {
+      // Raw input: browser voice processing would colour the sample
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+    }
+
+    this.inputGain = ctx.createGain();
+    this.inputGain.gain.value = this.gain;
+
+    this.recorderNode = new AudioWorkletNode(ctx, 'recorder-processor', {
+      numberOfOutputs: 0,
+    });
+    this.recorderNode.port.onmessage = (event: MessageEvent<RecorderMessage>) =>
+      this.handleMessage(event.data, ctx);
+    this.inputGain.connect(this.recorderNode);
+
+    if (this.stream) {
+      const streamSource = ctx.createMediaStreamSource(this.stream);
+      streamSource.connect(this.inputGain);
+      this.sourceNodes = [streamSource];
+    } else {
+      this.sourceNodes = this.createTestSignal(ctx, this.inputGain);
+    }
+
+    this.setStatus('monitoring');
+    console.log(`[InputCapture] Input open (${source})`);
+  }
+
+  /**
+   * Close the input and release the device
+   */
+  close(): void {
+    this.sourceNodes.forEach((node) => {
+      if (node instanceof AudioScheduledSourceNode) node.stop();
+      node.disconnect();
+    });
+    this.sourceNodes = [];
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.inputGain?.disconnect();
+    this.inputGain = null;
+    this.recorderNode?.disconnect();
+    this.recorderNode = null;
+    this.setStatus('closed');
+  }
+
+  /**
+   * Input gain (linear, 0-4)
+   */
+  setGain(gain: number): void {
+    this.gain = gain;
+    if (this.inputGain) {
+      this.inputGain.gain.setTargetAtTime(gain, this.inputGain.context.currentTime, 0.01);
+    }
+  }
+
+  /**
+   * Arm sampling: capture starts when the input crosses `threshold` (0-1)
+   */
+  arm(threshold: number, seconds: number): void {
+    if (!this.recorderNode) return;
+    this.recorderNode.port.postMessage({
+      type: 'arm',
+      threshold,
+      maxSamples: this.secondsToSamples(seconds),
+    });
+    this.setStatus('armed');
+  }
+
+  /**
+   * Force sampling to start immediately
+   */
+  force(seconds: number): void {
+    if (!this.recorderNode) return;
+    this.recorderNode.port.postMessage({
+      type: 'force',
+      maxSamples: this.secondsToSamples(seconds),
+    });
+  }
+
+  /**
+   * Stop early: keeps what has been captured, or disarms
+   */
+  stop(): void {
+    this.recorderNode?.port.postMessage({ type: 'stop' });
+    if (this.status === 'armed') this.setStatus('monitoring');
+  }
+
+  getStatus(): CaptureStatus {
+    return this.status;
+  }
+
+  subscribe(callback: CaptureListener): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  private secondsToSamples(seconds: number): number {
+    const rate = audioEngine.context?.sampleRate ?? 44100;
+    return Math.round(Math.min(seconds, MAX_SAMPLE_SECONDS) * rate);
+  }
+
+  private handleMessage(message: RecorderMessage, ctx: AudioContext): void {
+    switch (message.type) {
+      case 'level':
+        this.emit({ type: 'level', peak: message.peak });
+        break;
+      case 'started':
+        this.setStatus('recording');
+        break;
+      case 'complete': {
+        const buffer = ctx.createBuffer(1, Math.max(1, message.data.length), ctx.sampleRate);
+        buffer.getChannelData(0).set(message.data);
+        this.setStatus('monitoring');
+        this.emit({ type: 'complete', buffer });
+        console.log(`[InputCapture] Captured ${buffer.duration.toFixed(2)}s`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Test signal: a 110 Hz sawtooth gated on and off twice a second
+   */
+  private createTestSignal(ctx: AudioContext, destination: AudioNode): AudioNode[] {
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.value = 110;
+
+    // gate = 0.5 + 0.5 * square(2 Hz) -> alternates between 0 and 1
+    const gate = ctx.createGain();
+    gate.gain.value = 0;
+    const lfo = ctx.createOscillator();
+    lfo.type = 'square';
+    lfo.frequency.value = 2;
+    const lfoDepth = ctx.createGain();
+    lfoDepth.gain.value = 0.5;
+    const offset = ctx.createConstantSource();
+    offset.offset.value = 0.5;
+
+    lfo.connect(lfoDepth);
+    lfoDepth.connect(gate.gain);
+    offset.connect(gate.gain);
+    osc.connect(gate);
+    gate.connect(destination);
+
+    osc.start();
+    lfo.start();
+    offset.start();
+    return [osc, lfo, offset, lfoDepth, gate];
+  }
+
+  private setStatus(status: CaptureStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.emit({ type: 'status', status });
+  }
+
+  private emit(event: CaptureEvent): void {
+    this.listeners.forEach((cb) => cb(event));
+  }
+}
+
+// Singleton instance
+export const inputCapture = new InputCapture();
@@ -0,0 +1,396 @@
+/**
+ * SP-1200 Output Graph
+ * The signal chain after the voices: eight channel strips (level -> 4-pole
+ * filter -> pan), the bitcrusher and the master gain. Built on any
+ * BaseAudioContext so live playback and offline renders share one chain.
+ */
+
+import { CHANNEL_COUNT, ChannelStrip, getEffectiveLevels } from './mixer';
+import { CHANNEL_FILTERS, FOUR_POLE_Q, SamplingMode } from './emulation';
+import { VoiceHandle } from './voices';
+
+export interface AudioEngineState {
+  masterVolume: number;
+  metronomeVolume: number;
+  bitDepth: number;
+  reduction: number;
+  mix: number;
+  samplingMode: SamplingMode;
+}
+
+/**
+ * Everything needed to play one hit, resolved from the sound's sample,
+ * edit and voice parameters
+ */
+export interface Voice {
+  buffer: AudioBuffer;
+  playbackRate: number;
+  loopStart: number | null; // seconds into the buffer, null = no loop
+  level: number; // 0-1
+  timeConstant: number | null; // decay, null = no decay
+  channel: number;
+}
+
+interface ChannelNodes {
+  input: GainNode;
+  filters: BiquadFilterNode[]; // two sections = 4-pole low-pass
+  panner: StereoPannerNode;
+}
+
+const SMOOTH_TIME = 0.02; // 20ms smoothing to avoid zipper noise
+const MAX_LOOP_TIME = 10; // seconds a loop with no decay rings for
+const STEAL_FADE = 0.005; // seconds to fade out a cut voice without a click
+const PULSE_LENGTH = 0.005; // seconds
+const PULSE_LEVEL = 0.9;
+
+/**
+ * Seconds a voice plays for: to the end of its buffer (or for the longest
+ * loop time), or until its decay is effectively silent if that is sooner
+ */
+export function getVoiceLength(voice: Voice): number {
+  const played = voice.loopStart !== null ? MAX_LOOP_TIME : voice.buffer.duration / voice.playbackRate;
+  return voice.timeConstant !== null ? Math.min(played, voice.timeConstant * 8) : played;
+}
+
+export class OutputGraph {
+  private masterGain: GainNode;
+  private metronomeGain: GainNode;
+  private programBus: GainNode;
+  private programSplitter: ChannelSplitterNode;
+  private pulseInput: GainNode;
+  private outputMerger: ChannelMergerNode | null = null;
+  private bitcrusherNode: AudioWorkletNode;
+  private channelNodes: ChannelNodes[] = [];
+
+  /**
+   * Load the bitcrusher worklet into a context and build the graph
+   */
+  static async create(
+    ctx: BaseAudioContext,
+    state: AudioEngineState,
+    channels: ChannelStrip[]
+  ): Promise<OutputGraph> {
+    await ctx.audioWorklet.addModule('/worklets/bitcrusher.js');
+    return new OutputGraph(ctx, state, channels);
+  }
+
+  private constructor(
+    readonly ctx: BaseAudioContext,
+    private state: AudioEngineState,
+    private channels: ChannelStrip[]
+  ) {
+    // Start every parameter at its target so an offline render has no ramps at 0
+    this.bitcrusherNode = new AudioWorkletNode(ctx, 'bitcrusher-processor', {
+      parameterData: { bitDepth: state.bitDepth, reduction: state.reduction, mix: state.mix },
+    });
+    this.masterGain = ctx.createGain();
+    this.masterGain.gain.value = state.masterVolume;
+
+    // Channel strips: input gain -> filters -> panner -> bitcrusher or master
+    const levels = getEffectiveLevels(channels);
+    for (let i = 0; i < CHANNEL_COUNT; i++) {
+      const input = ctx.createGain();
+      input.gain.value = levels[i];
+      const filters = FOUR_POLE_Q.map((q) => {
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.Q.value = q;
+        return filter;
+      });
+      const panner = ctx.createStereoPanner();
+      panner.pan.value = channels[i].pan;
+      input.connect(filters[0]);
+      filters[0].connect(filters[1]);
+      filters[1].connect(panner);
+      this.channelNodes.push({ input, filters, panner });
+    }
+
+    // Connect: bitcrusher -> masterGain -> program bus
+    this.bitcrusherNode.connect(this.masterGain);
+
+    // Metronome has its own gain, bypassing the crusher and master
+    this.metronomeGain = ctx.createGain();
+    this.metronomeGain.gain.value = state.metronomeVolume;
+
+    // Program bus: stereo, so mono sources (the metronome) fill both sides,
+    // then split onto outputs 1-2 whatever the destination's channel layout
+    this.programBus = ctx.createGain();
+    this.programBus.channelCount = 2;
+    this.programBus.channelCountMode = 'explicit';
+    this.programSplitter = ctx.createChannelSplitter(2);
+    this.masterGain.connect(this.programBus);
+    this.metronomeGain.connect(this.programBus);
+    this.programBus.connect(this.programSplitter);
+    this.pulseInput = ctx.createGain();
+    this.applyClickOutput(false);
+
+    this.applyState();
+    this.applyChannels();
+    this.applyFilters();
+    this.applyRouting();
+  }
+
+  /**
+   * Play a voice on its channel at an audio time. The handle cuts it
+   * short (choke, mono or steal); `onEnded` runs once it has stopped.
+   */
+  playVoice(voice: Voice, startTime: number, onEnded?: () => void): VoiceHandle {
+    const source = this.ctx.createBufferSource();
+    source.buffer = voice.buffer;
+    source.playbackRate.value = voice.playbackRate;
+    if (voice.loopStart !== null) {
+      source.loop = true;
+      source.loopStart = voice.loopStart;
+      source.loopEnd = voice.buffer.duration;
+    }
+
+    // Amplitude envelope: instant attack, exponential decay
+    const envelope = this.ctx.createGain();
+    envelope.gain.value = voice.level;
+    if (voice.timeConstant !== null) {
+      envelope.gain.setValueAtTime(voice.level, startTime);
+      envelope.gain.setTargetAtTime(0, startTime, voice.timeConstant);
+    }
+
+    // Connect source -> envelope -> channel strip
+    if (this.state.samplingMode === 'emulation') {
+      this.triggerChannelFilter(voice.channel, startTime, voice.timeConstant);
+    }
+    source.connect(envelope);
+    envelope.connect(this.channelNodes[voice.channel].input);
+    source.onended = () => {
+      envelope.disconnect();
+      onEnded?.();
+    };
+
+    source.start(startTime);
+    // Stop once the envelope is effectively silent, or a loop has rung long enough
+    const end = startTime + getVoiceLength(voice);
+    if (voice.timeConstant !== null || source.loop) source.stop(end);
+
+    const handle: VoiceHandle = {
+      start: startTime,
+      end,
+      stop: (time) => {
+        const at = Math.max(time, startTime);
+        if (at >= handle.end) return;
+        // The decay carries on until `at`, then a fast fade from wherever it got to
+        envelope.gain.cancelScheduledValues(at);
+        envelope.gain.setTargetAtTime(0, at, STEAL_FADE / 5);
+        handle.end = at + STEAL_FADE;
+        source.stop(handle.end);
+      },
+    };
+    return handle;
+  }
+
+  /**
+   * Play a metronome click (short sine blip) at an audio time
+   * @param accent true for the downbeat of a bar
+   */
+  playClick(startTime: number, accent = false): void {
+    const osc = this.ctx.createOscillator();
+    const envelope = this.ctx.createGain();
+
+    osc.frequency.value = accent ? 1760 : 1320;
+    envelope.gain.setValueAtTime(1, startTime);
+    envelope.gain.exponentialRampToValueAtTime(0.001, startTime + 0.03);
+
+    osc.connect(envelope);
+    envelope.connect(this.metronomeGain);
+    osc.onended = () => envelope.disconnect();
+    osc.start(startTime);
+    osc.stop(startTime + 0.03);
+  }
+
+  /**
+   * Play a click track pulse: a short full-scale square on the click
+   * output, so it is not shaped by the mix or metronome level
+   */
+  playPulse(startTime: number): void {
+    const pulse = this.ctx.createConstantSource();
+    pulse.offset.value = PULSE_LEVEL;
+    pulse.connect(this.pulseInput);
+    pulse.onended = () => pulse.disconnect();
+    pulse.start(startTime);
+    pulse.stop(startTime + PULSE_LENGTH);
+  }
+
+  /**
+   * Update state and apply to audio nodes with smoothing
+   */
+  setState(state: AudioEngineState): void {
+    const modeChanged = state.samplingMode !== this.state.samplingMode;
+    this.state = { ...state };
+    this.applyState();
+    if (modeChanged) {
+      this.applyFilters();
+      this.applyRouting();
+    }
+  }
+
+  /**
+   * Route the click track to its own output while Sync click out is on
+   */
+  setClickOutput(enabled: boolean): void {
+    this.applyClickOutput(enabled);
+  }
+
+  /**
+   * Replace all channel strip settings
+   */
+  setChannels(channels: ChannelStrip[]): void {
+    const routingChanged = channels.some((ch, i) => ch.output !== this.channels[i]?.output);
+    this.channels = channels.map((ch) => ({ ...ch }));
+    this.applyChannels();
+    if (routingChanged) this.applyRouting();
+  }
+
+  /**
+   * Channels 1-2: open the SSM2044 filter on each hit and close it
+   * along with the voice decay
+   */
+  private triggerChannelFilter(
+    channel: number,
+    startTime: number,
+    timeConstant: number | null
+  ): void {
+    const config = CHANNEL_FILTERS[channel];
+    if (config.type !== 'dynamic') return;
+
+    this.channelNodes[channel].filters.forEach((filter) => {
+      filter.frequency.cancelScheduledValues(startTime);
+      filter.frequency.setValueAtTime(config.openCutoff, startTime);
+      if (timeConstant !== null) {
+        filter.frequency.setTargetAtTime(config.closedCutoff, startTime, timeConstant);
+      }
+    });
+  }
+
+  /**
+   * Connect the program to outputs 1-2 through a merger sized to the
+   * destination. With click out on, an interface with more than two outputs
+   * switches to discrete channels and the click track takes the last one;
+   * otherwise (and on stereo devices) the click shares the program outputs.
+   */
+  private applyClickOutput(enabled: boolean): void {
+    const destination = this.ctx.destination;
+    const outputs = enabled && destination.maxChannelCount > 2 ? destination.maxChannelCount : 2;
+
+    this.outputMerger?.disconnect();
+    this.programSplitter.disconnect();
+    this.pulseInput.disconnect();
+    if (destination.channelCount !== outputs) destination.channelCount = outputs;
+    destination.channelInterpretation = outputs > 2 ? 'discrete' : 'speakers';
+
+    const merger = this.ctx.createChannelMerger(outputs);
+    this.programSplitter.connect(merger, 0, 0);
+    this.programSplitter.connect(merger, 1, 1);
+    if (outputs > 2) {
+      this.pulseInput.connect(merger, 0, outputs - 1);
+    } else {
+      this.pulseInput.connect(this.programBus);
+    }
+    merger.connect(destination);
+    this.outputMerger = merger;
+  }
+
+  /**
+   * Apply channel levels (after mute/solo) and pans with smoothing
+   */
+  private applyChannels(): void {
+    const currentTime = this.ctx.currentTime;
+    const levels = getEffectiveLevels(this.channels);
+
+    this.channelNodes.forEach((nodes, i) => {
+      nodes.input.gain.cancelScheduledValues(currentTime);
+      nodes.input.gain.setValueAtTime(nodes.input.gain.value, currentTime);
+      nodes.input.gain.linearRampToValueAtTime(levels[i], currentTime + SMOOTH_TIME);
+
+      nodes.panner.pan.cancelScheduledValues(currentTime);
+      nodes.panner.pan.setValueAtTime(nodes.panner.pan.value, currentTime);
+      nodes.panner.pan.linearRampToValueAtTime(this.channels[i].pan, currentTime + SMOOTH_TIME);
+    });
+  }
+
+  /**
+   * Set channel filters: the original's filters in emulation mode,
+   * fully open in creative mode
+   */
+  private applyFilters(): void {
+    const nyquist = this.ctx.sampleRate / 2;
+    const emulation = this.state.samplingMode === 'emulation';
+
+    this.channelNodes.forEach((nodes, i) => {
+      const config = CHANNEL_FILTERS[i];
+      let cutoff = nyquist;
+      if (emulation && config.type === 'fixed') cutoff = config.cutoff;
+      if (emulation && config.type === 'dynamic') cutoff = config.openCutoff;
+
+      nodes.filters.forEach((filter) => {
+        filter.frequency.cancelScheduledValues(0);
+        filter.frequency.value = Math.min(cutoff, nyquist);
+      });
+    });
+  }
+
+  /**
+   * Connect each channel to the bitcrusher or straight to the master.
+   * Emulation mode never uses the crusher: the sounds are already 12-bit.
+   */
+  private applyRouting(): void {
+    this.channelNodes.forEach((nodes, i) => {
+      nodes.panner.disconnect();
+      const useCrusher =
+        this.state.samplingMode === 'creative' && this.channels[i].output === 'crusher';
+      nodes.panner.connect(useCrusher ? this.bitcrusherNode : this.masterGain);
+    });
+  }
+
+  /**
+   * Apply current state to audio nodes with smoothing
+   */
+  private applyState(): void {
+    const currentTime = this.ctx.currentTime;
+    const smoothTime = SMOOTH_TIME;
+
+    // Master volume with smoothing
+    this.masterGain.gain.cancelScheduledValues(currentTime);
+    this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, currentTime);
+    this.masterGain.gain.linearRampToValueAtTime(
+      this.state.masterVolume,
+      currentTime + smoothTime
+    );
+
+    // Metronome volume with smoothing
+    this.metronomeGain.gain.cancelScheduledValues(currentTime);
+    this.metronomeGain.gain.setValueAtTime(this.metronomeGain.gain.value, currentTime);
+    this.metronomeGain.gain.linearRampToValueAtTime(
+      this.state.metronomeVolume,
+      currentTime + smoothTime
+    );
+
+    // Bitcrusher parameters
+    const bitDepthParam = this.bitcrusherNode.parameters.get('bitDepth');
+    const reductionParam = this.bitcrusherNode.parameters.get('reduction');
+    const mixParam = this.bitcrusherNode.parameters.get('mix');
+
+    if (bitDepthParam) {
+      bitDepthParam.cancelScheduledValues(currentTime);
+      bitDepthParam.setValueAtTime(bitDepthParam.value, currentTime);
+      bitDepthParam.linearRampToValueAtTime(this.state.bitDepth, currentTime + smoothTime);
+    }
+
+    if (reductionParam) {
+      reductionParam.cancelScheduledValues(currentTime);
+      reductionParam.setValueAtTime(reductionParam.value, currentTime);
+      reductionParam.linearRampToValueAtTime(this.state.reduction, currentTime + smoothTime);
+    }
+
+    if (mixParam) {
+      mixParam.cancelScheduledValues(currentTime);
+      mixParam.setValueAtTime(mixParam.value, currentTime);
+      mixParam.linearRampToValueAtTime(this.state.mix, currentTime + smoothTime);
+    }
+  }
+}
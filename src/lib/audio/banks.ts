@@ -0,0 +1,39 @@
+/**
+ * SP-1200 sound banks
+ * Four banks (A-D) of eight pads address 32 sound slots.
+ * Sound slots are numbered 0-31: bank A = 0-7, B = 8-15, C = 16-23, D = 24-31.
+ */
+
+export type Bank = 'A' | 'B' | 'C' | 'D';
+
+export const BANKS: Bank[] = ['A', 'B', 'C', 'D'];
+export const PADS_PER_BANK = 8;
+export const SOUND_COUNT = BANKS.length * PADS_PER_BANK;
+
+/**
+ * Sound slot index for a pad in a bank
+ */
+export function getSoundIndex(bank: Bank, padIndex: number): number {
+  return BANKS.indexOf(bank) * PADS_PER_BANK + padIndex;
+}
+
+/**
+ * Bank of a sound slot
+ */
+export function getSoundBank(soundIndex: number): Bank {
+  return BANKS[Math.floor(soundIndex / PADS_PER_BANK)];
+}
+
+/**
+ * Pad (0-7) of a sound slot
+ */
+export function getSoundPad(soundIndex: number): number {
+  return soundIndex % PADS_PER_BANK;
+}
+
+/**
+ * Display name of a sound slot, e.g. "B3"
+ */
+export function formatSoundName(soundIndex: number): string {
+  return `${getSoundBank(soundIndex)}${getSoundPad(soundIndex) + 1}`;
+}
@@ -0,0 +1,65 @@
+/**
+ * SP-1200 bounce
+ * Renders timed events offline through the output chain and writes WAV:
+ * either the full mix, or one stem per mixer channel.
+ */
+
+import { RenderEvent, audioEngine } from './AudioEngine';
+import { WavFormat, encodeWav } from './wav';
+
+export const BOUNCE_SAMPLE_RATES = [44100, 48000, 88200, 96000];
+
+const TAIL_SECONDS = 2; // rendered past the last segment so decays ring out
+
+export interface BounceOptions {
+  sampleRate: number;
+  format: WavFormat;
+  stems: boolean; // one file per channel instead of the mix
+}
+
+export interface BounceFile {
+  name: string;
+  blob: Blob;
+}
+
+/**
+ * Render events to WAV files named after `name`.
+ * Stems are rendered one channel at a time (others muted) so each passes
+ * through its own copy of the crusher; silent channels are skipped.
+ */
+export async function bounce(
+  events: RenderEvent[],
+  duration: number,
+  name: string,
+  options: BounceOptions
+): Promise<BounceFile[]> {
+  const length = duration + TAIL_SECONDS;
+  const toFile = (buffer: AudioBuffer, fileName: string): BounceFile => ({
+    name: fileName,
+    blob: new Blob([encodeWav(buffer, options.format)], { type: 'audio/wav' }),
+  });
+
+  if (!options.stems) {
+    const buffer = await audioEngine.renderOffline(events, length, options.sampleRate);
+    return [toFile(buffer, `${name}.wav`)];
+  }
+
+  const live = audioEngine.getChannels();
+  const used = new Set(
+    events
+      .filter((event) => audioEngine.hasSample(event.soundIndex))
+      .map((event) => audioEngine.getChannelForSound(event.soundIndex))
+  );
+
+  const files: BounceFile[] = [];
+  for (const channel of [...used].sort((a, b) => a - b)) {
+    const channels = live.map((strip, i) => ({
+      ...strip,
+      solo: false,
+      mute: i !== channel || strip.mute,
+    }));
+    const buffer = await audioEngine.renderOffline(events, length, options.sampleRate, channels);
+    files.push(toFile(buffer, `${name}-ch${channel + 1}.wav`));
+  }
+  return files;
+}
@@ -0,0 +1,92 @@
+/**
+ * SP-1200 sampling model
+ * Sounds are converted once to the original's 26.04 kHz / 12-bit format
+ * and pitched with drop-sample playback: the output keeps running at
+ * 26.04 kHz and samples are skipped or repeated, with no interpolation.
+ */
+
+export const SP_SAMPLE_RATE = 26040;
+export const SP_BIT_DEPTH = 12;
+
+export type SamplingMode = 'emulation' | 'creative';
+
+/**
+ * Output filter of each channel.
+ * Channels 1-2 have SSM2044 4-pole filters whose cutoff follows the voice
+ * decay; channels 3-6 have fixed low-pass filters; 7-8 are unfiltered.
+ * Cutoffs are approximations of the original hardware.
+ * One entry per mixer channel.
+ */
+export type ChannelFilter =
+  | { type: 'dynamic'; openCutoff: number; closedCutoff: number }
+  | { type: 'fixed'; cutoff: number }
+  | { type: 'none' };
+
+export const CHANNEL_FILTERS: ChannelFilter[] = [
+  { type: 'dynamic', openCutoff: 13000, closedCutoff: 600 },
+  { type: 'dynamic', openCutoff: 13000, closedCutoff: 600 },
+  { type: 'fixed', cutoff: 11000 },
+  { type: 'fixed', cutoff: 11000 },
+  { type: 'fixed', cutoff: 7000 },
+  { type: 'fixed', cutoff: 7000 },
+  { type: 'none' },
+  { type: 'none' },
+];
+
+// Q of each biquad section of a 4-pole Butterworth low-pass
+export const FOUR_POLE_Q = [0.541, 1.307];
+
+/**
+ * Convert a decoded buffer to mono 26.04 kHz 12-bit PCM.
+ * Decimation takes the nearest source sample with no anti-alias filter,
+ * so high frequencies fold back the way an unfiltered input would.
+ */
+export function convertToSP1200(buffer: AudioBuffer): Float32Array {
+  const ratio = buffer.sampleRate / SP_SAMPLE_RATE;
+  const length = Math.floor(buffer.length / ratio);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    buffer.getChannelData(c)
+  );
+  const output = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const index = Math.floor(i * ratio);
+    let sum = 0;
+    for (const data of channels) sum += data[index];
+    output[i] = quantize12(sum / channels.length);
+  }
+
+  return output;
+}
+
+/**
+ * Quantize a sample in [-1, 1] to 12-bit resolution
+ */
+export function quantize12(sample: number): number {
+  const half = Math.pow(2, SP_BIT_DEPTH - 1);
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return Math.max(-half, Math.min(half - 1, Math.round(clamped * half))) / half;
+}
+
+/**
+ * Render 26.04 kHz data pitched by `playbackRate` using drop-sample playback,
+ * held (zero-order) at the output sample rate like the original's DAC.
+ */
+export function renderDropSample(
+  data: Float32Array,
+  playbackRate: number,
+  outputRate: number
+): Float32Array {
+  const spLength = Math.floor(data.length / playbackRate);
+  const length = Math.ceil((spLength * outputRate) / SP_SAMPLE_RATE);
+  const output = new Float32Array(length);
+  const clockRatio = SP_SAMPLE_RATE / outputRate;
+
+  for (let i = 0; i < length; i++) {
+    const spIndex = Math.floor(i * clockRatio);
+    const sourceIndex = Math.floor(spIndex * playbackRate);
+    output[i] = sourceIndex < data.length ? data[sourceIndex] : 0;
+  }
+
+  return output;
+}
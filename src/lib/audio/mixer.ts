@@ -0,0 +1,45 @@
+/**
+ * SP-1200 mixer model
+ * Eight output channels, one per pad position, each with level, pan,
+ * mute/solo and an output route (through the crusher or direct).
+ */
+
+export const CHANNEL_COUNT = 8;
+
+export type ChannelOutput = 'crusher' | 'direct';
+
+export interface ChannelStrip {
+  level: number; // 0-1
+  pan: number; // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+  output: ChannelOutput;
+}
+
+export interface Mix {
+  name: string;
+  channels: ChannelStrip[];
+}
+
+export const DEFAULT_CHANNEL: ChannelStrip = {
+  level: 0.8,
+  pan: 0,
+  mute: false,
+  solo: false,
+  output: 'crusher',
+};
+
+export function createDefaultChannels(): ChannelStrip[] {
+  return Array.from({ length: CHANNEL_COUNT }, () => ({ ...DEFAULT_CHANNEL }));
+}
+
+/**
+ * Effective channel gains after mute and solo are applied
+ */
+export function getEffectiveLevels(channels: ChannelStrip[]): number[] {
+  const anySolo = channels.some((ch) => ch.solo);
+  return channels.map((ch) => {
+    if (ch.mute || (anySolo && !ch.solo)) return 0;
+    return ch.level;
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * SP-1200 Loop/Truncate points (Set-up 19)
+ * Points are frame positions in the sound's buffer. Playback runs from
+ * `start` to `end`; with a loop point it then repeats between the loop
+ * point and the far end of the region (the start, when reversed).
+ */
+
+export type EditPoint = 'start' | 'end' | 'loop';
+
+export interface SampleEdit {
+  start: number;
+  end: number;
+  loop: number | null;
+  reverse: boolean;
+}
+
+export const EDIT_POINTS: EditPoint[] = ['start', 'end', 'loop'];
+
+export const NUDGE_FINE = 10; // frames
+export const NUDGE_COARSE = 1000; // frames
+
+const MIN_REGION = 64; // frames
+
+export function createSampleEdit(length: number): SampleEdit {
+  return { start: 0, end: length, loop: null, reverse: false };
+}
+
+/**
+ * Keep points inside the buffer and in order: start < end, start <= loop < end
+ */
+export function clampSampleEdit(edit: SampleEdit, length: number): SampleEdit {
+  const start = Math.max(0, Math.min(length - MIN_REGION, Math.round(edit.start)));
+  const end = Math.max(start + MIN_REGION, Math.min(length, Math.round(edit.end)));
+  const loop =
+    edit.loop === null ? null : Math.max(start, Math.min(end - MIN_REGION, Math.round(edit.loop)));
+  return { start, end, loop, reverse: edit.reverse };
+}
+
+/**
+ * Whether an edit plays the whole buffer forwards with no loop
+ */
+export function isDefaultEdit(edit: SampleEdit, length: number): boolean {
+  return edit.start === 0 && edit.end === length && edit.loop === null && !edit.reverse;
+}
+
+/**
+ * Loop offset in frames from the start of the played (possibly reversed) region
+ */
+export function getLoopOffset(edit: SampleEdit): number | null {
+  if (edit.loop === null) return null;
+  return edit.reverse ? edit.end - edit.loop : edit.loop - edit.start;
+}
+
+/**
+ * Copy the edited region of channel data, reversed if needed
+ */
+export function extractRegion(data: Float32Array, start: number, end: number, reverse: boolean): Float32Array {
+  const region = data.slice(start, end);
+  return reverse ? region.reverse() : region;
+}
+
+/**
+ * Find the nearest zero crossing from `frame` in a direction (1 or -1).
+ * Returns `frame` when none is found.
+ */
+export function findZeroCrossing(data: Float32Array, frame: number, direction: 1 | -1): number {
+  for (let i = frame; i > 0 && i < data.length; i += direction) {
+    const a = data[i - 1];
+    const b = data[i];
+    if ((a <= 0 && b > 0) || (a >= 0 && b < 0)) return i;
+  }
+  return frame;
+}
@@ -0,0 +1,130 @@
+/**
+ * SP-1200 batch sample import
+ * Dropped files and folders fill consecutive pads, on through the banks.
+ * Audio is recognised by its first bytes rather than the MIME type, which
+ * browsers leave empty for some files (.aif). Files go in name order, or
+ * in smart order: kicks, snares, claps... like a drum kit, then the rest.
+ */
+
+export type AudioFormat = 'wav' | 'aiff' | 'mp3' | 'aac' | 'ogg' | 'flac' | 'mp4' | 'webm';
+export type ImportSort = 'name' | 'smart';
+
+export const SNIFF_BYTES = 12; // enough for every signature below
+
+/**
+ * A dropped file with its path in the dropped folder (its name otherwise)
+ */
+export interface ImportFile {
+  path: string;
+  file: File;
+}
+
+export interface ImportSummary {
+  loaded: number;
+  failed: number; // not audio, or could not be decoded
+  tooLong: number; // loaded, but longer than the original's sample time
+  noRoom: number; // past the last pad of bank D
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * Audio format from the start of a file, or null if it is not audio
+ */
+export function sniffAudioFormat(bytes: Uint8Array): AudioFormat | null {
+  if (bytes.length < 4) return null;
+  const magic = ascii(bytes, 0, 4);
+  if (magic === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return 'wav';
+  if (magic === 'FORM' && ['AIFF', 'AIFC'].includes(ascii(bytes, 8, 4))) return 'aiff';
+  if (magic === 'OggS') return 'ogg';
+  if (magic === 'fLaC') return 'flac';
+  if (magic === '\x1a\x45\xdf\xa3') return 'webm';
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'mp4';
+  if (ascii(bytes, 0, 3) === 'ID3') return 'mp3';
+  // MPEG frame sync: layer bits 00 are AAC (ADTS), the others MP3
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+    return (bytes[1] & 0x06) === 0 ? 'aac' : 'mp3';
+  }
+  return null;
+}
+
+// Smart sort order, matched against the path in lower case words
+const KIT_ORDER: RegExp[] = [
+  /kick|kik|\bbd\b|bass ?drum/,
+  /snare|snr|\bsd\b/,
+  /clap|\bcp\b/,
+  /rim|stick/,
+  /hat|\b[co]?hh\b/,
+  /tom/,
+  /crash|ride|cym/,
+  /perc|conga|bongo|shak|tamb|cowbell|clave/,
+];
+
+/**
+ * Place of a file in a drum kit (KIT_ORDER.length when it isn't a drum)
+ */
+export function getKitRank(path: string): number {
+  const words = path.toLowerCase().replace(/[^a-z]+/g, ' ');
+  const rank = KIT_ORDER.findIndex((pattern) => pattern.test(words));
+  return rank === -1 ? KIT_ORDER.length : rank;
+}
+
+// Numbers in names in numeric order: "kick 2" before "kick 10"
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export function sortImportFiles(files: ImportFile[], sort: ImportSort): ImportFile[] {
+  const rank = (file: ImportFile) => (sort === 'smart' ? getKitRank(file.path) : 0);
+  return [...files].sort((a, b) => rank(a) - rank(b) || collator.compare(a.path, b.path));
+}
+
+/**
+ * LCD summary, e.g. "6 LOADED 1 FAILED 2 TOO LONG"
+ */
+export function formatImportSummary(summary: ImportSummary, maxSeconds: number): string {
+  const parts = [`${summary.loaded} LOADED`];
+  if (summary.failed > 0) parts.push(`${summary.failed} FAILED`);
+  if (summary.noRoom > 0) parts.push(`${summary.noRoom} NO PAD`);
+  if (summary.tooLong > 0) parts.push(`${summary.tooLong} OVER ${maxSeconds}S`);
+  return parts.join(' ');
+}
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const readBatch = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+// Files of an entry, folders read all the way down; hidden files are skipped
+async function readEntry(entry: FileSystemEntry): Promise<ImportFile[]> {
+  if (entry.name.startsWith('.')) return [];
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    return [{ path: entry.fullPath.replace(/^\//, ''), file }];
+  }
+  if (!entry.isDirectory) return [];
+
+  // A directory reader returns its entries in batches, then an empty one
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  let batch: FileSystemEntry[];
+  do {
+    batch = await readBatch(reader);
+    children.push(...batch);
+  } while (batch.length > 0);
+  return (await Promise.all(children.map(readEntry))).flat();
+}
+
+/**
+ * Files of a drop, with dropped folders expanded. Must be called before
+ * the drop handler awaits anything: the items are only readable during it.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<ImportFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files, (file) => ({ path: file.name, file }));
+  }
+  return (await Promise.all(entries.map(readEntry))).flat();
+}
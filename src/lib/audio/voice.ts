@@ -0,0 +1,112 @@
+/**
+ * SP-1200 voice parameters
+ * Per-sound tuning and decay set from the sliders in Tune/Decay mode
+ */
+
+export interface VoiceParams {
+  tune: number; // semitones, -12 to +12
+  decay: number; // 0-1, 1 = play the whole sample
+}
+
+/**
+ * Per-trigger adjustments on top of the sound's voice parameters
+ */
+export interface TriggerOptions {
+  tuneOffset?: number; // semitones added to the sound's tune
+  level?: number; // 0-1 gain
+  velocity?: number; // 0-1 hit strength (Dynamic Buttons, MIDI)
+}
+
+/**
+ * What velocity changes besides level (Set-up 14)
+ */
+export interface VelocityResponse {
+  decay: boolean; // softer hits decay faster
+  pitch: boolean; // softer hits play lower
+}
+
+export const DEFAULT_VOICE_PARAMS: VoiceParams = {
+  tune: 0,
+  decay: 1,
+};
+
+export const DEFAULT_VELOCITY_RESPONSE: VelocityResponse = {
+  decay: false,
+  pitch: false,
+};
+
+export const TUNE_RANGE = 12;
+
+const MIN_DECAY_TIME = 0.02; // seconds
+const MAX_DECAY_TIME = 2; // seconds
+
+/**
+ * Slider (0-100, 50 = center) to semitones
+ */
+export function sliderToTune(value: number): number {
+  return Math.round(((value - 50) / 50) * TUNE_RANGE);
+}
+
+/**
+ * Semitones to AudioBufferSourceNode playbackRate
+ */
+export function tuneToPlaybackRate(tune: number): number {
+  return Math.pow(2, tune / 12);
+}
+
+/**
+ * Decay (0-1) to an exponential decay time constant in seconds.
+ * Returns null at full decay, meaning no envelope is applied.
+ */
+export function decayToTimeConstant(decay: number): number | null {
+  if (decay >= 1) return null;
+  return MIN_DECAY_TIME * Math.pow(MAX_DECAY_TIME / MIN_DECAY_TIME, decay);
+}
+
+const VELOCITY_PITCH_RANGE = 1; // semitones down at zero velocity
+const VELOCITY_PITCH_STEP = 0.25; // semitones; keeps the emulated pitch cache small
+const VELOCITY_MIN_DECAY = 0.5; // decay scale at zero velocity
+
+/**
+ * Velocity (0-1) to gain: squared, so half velocity is about -12 dB
+ */
+export function velocityToGain(velocity: number): number {
+  return velocity * velocity;
+}
+
+/**
+ * Velocity (0-1) to a tune offset in semitones (0 at full velocity)
+ */
+export function velocityToTuneOffset(velocity: number): number {
+  const offset = (velocity - 1) * VELOCITY_PITCH_RANGE;
+  return Math.round(offset / VELOCITY_PITCH_STEP) * VELOCITY_PITCH_STEP;
+}
+
+/**
+ * Scale a decay setting (0-1) by velocity
+ */
+export function velocityToDecay(decay: number, velocity: number): number {
+  return decay * (VELOCITY_MIN_DECAY + (1 - VELOCITY_MIN_DECAY) * velocity);
+}
+
+/**
+ * Multi mode: one sound spread across all eight pads
+ */
+export type MultiModeType = 'pitch' | 'level';
+
+export interface MultiMode {
+  type: MultiModeType;
+  soundIndex: number;
+}
+
+/**
+ * Trigger options for a pad in multi mode.
+ * Multi Pitch steps chromatically upward from pad 1 (original pitch);
+ * Multi Level steps from 1/8 level on pad 1 to full level on pad 8.
+ */
+export function getMultiTriggerOptions(multi: MultiMode, padIndex: number): TriggerOptions {
+  if (multi.type === 'pitch') {
+    return { tuneOffset: padIndex };
+  }
+  return { level: (padIndex + 1) / 8 };
+}
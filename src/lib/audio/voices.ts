@@ -0,0 +1,86 @@
+/**
+ * SP-1200 voice allocation
+ * Tracks the voices playing on an output and picks the ones a new hit
+ * cuts: the sound's previous voice in mono mode, the other sounds of its
+ * choke group, and the oldest voice once the polyphony is used up.
+ */
+
+export const DEFAULT_POLYPHONY = 8; // the original's eight voices
+export const MAX_POLYPHONY = 32;
+
+/**
+ * How a sound shares voices (per sound slot, so per pad of a bank)
+ */
+export interface VoiceAllocation {
+  mono: boolean; // a new hit cuts the sound's previous one
+  chokeGroup: number | null; // hits cut the other sounds in the group
+}
+
+export const DEFAULT_VOICE_ALLOCATION: VoiceAllocation = {
+  mono: false,
+  chokeGroup: null,
+};
+
+export interface VoiceSettings {
+  polyphony: number;
+  allocations: Map<number, VoiceAllocation>; // sound index -> allocation
+}
+
+/**
+ * A voice started on an output graph
+ */
+export interface VoiceHandle {
+  start: number; // audio time
+  end: number; // audio time it stops by itself
+  stop: (time: number) => void; // fade out quickly from an audio time
+}
+
+interface PlayingVoice {
+  soundIndex: number;
+  handle: VoiceHandle;
+}
+
+export class VoiceAllocator {
+  private voices: PlayingVoice[] = [];
+
+  constructor(private settings: () => VoiceSettings) {}
+
+  /**
+   * Make room for a hit of a sound at `time`. Returns the voices to cut,
+   * which are no longer tracked.
+   */
+  claim(soundIndex: number, time: number): VoiceHandle[] {
+    const { polyphony, allocations } = this.settings();
+    const allocationOf = (index: number) => allocations.get(index) ?? DEFAULT_VOICE_ALLOCATION;
+    const { mono, chokeGroup } = allocationOf(soundIndex);
+
+    const cut: PlayingVoice[] = [];
+    const kept: PlayingVoice[] = [];
+    for (const voice of this.voices) {
+      if (voice.handle.end <= time) continue; // finished by then
+      const same = voice.soundIndex === soundIndex;
+      const choked =
+        chokeGroup !== null && !same && allocationOf(voice.soundIndex).chokeGroup === chokeGroup;
+      (choked || (mono && same) ? cut : kept).push(voice);
+    }
+
+    // Steal the oldest voices for the new one
+    kept.sort((a, b) => a.handle.start - b.handle.start);
+    const excess = kept.length - Math.max(1, polyphony) + 1;
+    if (excess > 0) cut.push(...kept.splice(0, excess));
+
+    this.voices = kept;
+    return cut.map((voice) => voice.handle);
+  }
+
+  add(soundIndex: number, handle: VoiceHandle): void {
+    this.voices.push({ soundIndex, handle });
+  }
+
+  /**
+   * Forget a voice that has ended
+   */
+  release(handle: VoiceHandle): void {
+    this.voices = this.voices.filter((voice) => voice.handle !== handle);
+  }
+}
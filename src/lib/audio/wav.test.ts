@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wav';
+
+// Just what encodeWav reads of an AudioBuffer
+function audioBuffer(channels: number[][], sampleRate = 44100): AudioBuffer {
+  const data = channels.map((samples) => new Float32Array(samples));
+  return {
+    numberOfChannels: data.length,
+    length: data[0].length,
+    sampleRate,
+    getChannelData: (channel: number) => data[channel],
+  } as unknown as AudioBuffer;
+}
+
+const text = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...new Uint8Array(view.buffer, offset, length));
+
+describe('encodeWav', () => {
+  it('writes a RIFF header for the format', () => {
+    const view = new DataView(encodeWav(audioBuffer([[0, 0], [0, 0]], 48000), '24'));
+    expect(text(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 2 * 2 * 3);
+    expect(text(view, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1); // integer PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 6);
+    expect(view.getUint16(32, true)).toBe(6);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(text(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(12);
+  });
+
+  it('interleaves 16-bit samples, clipping past full scale', () => {
+    const view = new DataView(encodeWav(audioBuffer([[1, -1], [0.5, 2]])));
+    expect([0, 1, 2, 3].map((i) => view.getInt16(44 + i * 2, true))).toEqual([
+      0x7fff,
+      0.5 * 0x7fff + 0.5,
+      -0x8000,
+      0x7fff,
+    ]);
+  });
+
+  it('writes 24-bit samples as three little-endian bytes', () => {
+    const bytes = new Uint8Array(encodeWav(audioBuffer([[1, -1]]), '24'), 44);
+    expect(Array.from(bytes)).toEqual([0xff, 0xff, 0x7f, 0x00, 0x00, 0x80]);
+  });
+
+  it('writes float samples unclipped', () => {
+    const view = new DataView(encodeWav(audioBuffer([[0.25, -1.5]]), '32f'));
+    expect(view.getUint16(20, true)).toBe(3); // IEEE float
+    expect(view.getFloat32(44, true)).toBe(0.25);
+    expect(view.getFloat32(48, true)).toBe(-1.5);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * WAV file writer (RIFF, little-endian)
+ * 16/24-bit integer PCM or 32-bit float, interleaved.
+ */
+
+export type WavFormat = '16' | '24' | '32f';
+
+export const WAV_FORMATS: WavFormat[] = ['16', '24', '32f'];
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+
+/**
+ * Encode an AudioBuffer as a WAV file
+ */
+export function encodeWav(buffer: AudioBuffer, format: WavFormat = '16'): ArrayBuffer {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    buffer.getChannelData(c)
+  );
+  const bytesPerSample = format === '16' ? 2 : format === '24' ? 3 : 4;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataBytes = buffer.length * blockAlign;
+
+  const output = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(output);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format === '32f' ? FORMAT_FLOAT : FORMAT_PCM, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (const data of channels) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      if (format === '32f') {
+        view.setFloat32(offset, data[i], true);
+      } else if (format === '16') {
+        view.setInt16(offset, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+      } else {
+        const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { UndoHistory } from './UndoHistory';
+
+interface Doc {
+  text: string;
+  data?: Uint8Array; // stands in for an audio buffer
+}
+
+const createHistory = (maxSteps?: number, budget?: number) =>
+  new UndoHistory<Doc>(
+    {
+      sizeOf: (doc) => new Map(doc.data ? [[doc.data, doc.data.byteLength]] : []),
+      merge: (earlier) => earlier,
+    },
+    maxSteps,
+    budget
+  );
+
+// An editor over a history: every edit records what it replaced
+function createEditor(history: UndoHistory<Doc>, initial: Doc = { text: '' }) {
+  let doc = initial;
+  const restore = (state: Doc) => {
+    const replaced = doc;
+    doc = state;
+    return replaced;
+  };
+  return {
+    get doc() {
+      return doc;
+    },
+    edit: (next: Doc, label = 'EDIT', group?: string) => {
+      history.push(label, doc, group);
+      doc = next;
+    },
+    undo: () => history.undo(restore),
+    redo: () => history.redo(restore),
+  };
+}
+
+describe('UndoHistory', () => {
+  it('undoes and redoes edits in order, returning their labels', () => {
+    const history = createHistory();
+    const editor = createEditor(history);
+    editor.edit({ text: 'a' }, 'TYPE A');
+    editor.edit({ text: 'ab' }, 'TYPE B');
+
+    expect(editor.undo()).toBe('TYPE B');
+    expect(editor.doc.text).toBe('a');
+    expect(editor.undo()).toBe('TYPE A');
+    expect(editor.doc.text).toBe('');
+    expect(editor.undo()).toBeNull();
+    expect(history.canUndo).toBe(false);
+
+    expect(editor.redo()).toBe('TYPE A');
+    expect(editor.redo()).toBe('TYPE B');
+    expect(editor.doc.text).toBe('ab');
+    expect(editor.redo()).toBeNull();
+  });
+
+  it('clears the redo steps on a new edit', () => {
+    const history = createHistory();
+    const editor = createEditor(history);
+    editor.edit({ text: 'a' });
+    editor.undo();
+    editor.edit({ text: 'b' });
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('merges consecutive edits of a group into one step', () => {
+    const history = createHistory();
+    const editor = createEditor(history);
+    editor.edit({ text: '1' }, 'FADER', 'fader');
+    editor.edit({ text: '2' }, 'FADER', 'fader');
+    editor.edit({ text: '3' }, 'FADER', 'fader');
+    editor.edit({ text: '4' }, 'OTHER');
+
+    editor.undo();
+    editor.undo();
+    expect(editor.doc.text).toBe('');
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('forgets the oldest steps past the step limit', () => {
+    const history = createHistory(2);
+    const editor = createEditor(history);
+    ['a', 'b', 'c'].forEach((text) => editor.edit({ text }));
+
+    editor.undo();
+    editor.undo();
+    expect(editor.undo()).toBeNull();
+    expect(editor.doc.text).toBe('a');
+  });
+
+  it('forgets the oldest steps once the data they hold is over budget', () => {
+    const history = createHistory(100, 1000);
+    const editor = createEditor(history, { text: '0', data: new Uint8Array(400) });
+    editor.edit({ text: '1', data: new Uint8Array(400) });
+    editor.edit({ text: '2', data: new Uint8Array(400) });
+    expect(history.canUndo).toBe(true);
+    editor.edit({ text: '3', data: new Uint8Array(400) }); // 1200 bytes held: step 0 goes
+
+    editor.undo();
+    editor.undo();
+    expect(editor.undo()).toBeNull();
+    expect(editor.doc.text).toBe('1');
+  });
+
+  it('counts data shared by several steps once', () => {
+    const history = createHistory(100, 1000);
+    const shared = new Uint8Array(600);
+    const editor = createEditor(history, { text: '0', data: shared });
+    ['1', '2', '3'].forEach((text) => editor.edit({ text, data: shared }));
+
+    editor.undo();
+    editor.undo();
+    editor.undo();
+    expect(editor.doc.text).toBe('0');
+  });
+
+  it('keeps the last step even when it alone is over budget', () => {
+    const history = createHistory(100, 100);
+    const editor = createEditor(history, { text: '0', data: new Uint8Array(500) });
+    editor.edit({ text: '1' });
+    expect(editor.undo()).toBe('EDIT');
+    expect(editor.doc.text).toBe('0');
+  });
+});
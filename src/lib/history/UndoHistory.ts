@@ -0,0 +1,101 @@
+/**
+ * SP-1200 undo history
+ * Each step holds what an edit replaced, to be put back on Undo; putting
+ * it back yields what it replaced in turn, which Redo puts back again.
+ * Steps refer to data (audio buffers above all) instead of copying it, so
+ * the history is bounded by the bytes of the large objects it still holds:
+ * past the budget the oldest steps are forgotten.
+ */
+
+export const MAX_UNDO_STEPS = 100;
+export const UNDO_BUDGET = 256 * 1024 * 1024; // bytes
+
+export interface UndoOptions<T> {
+  // Large objects a state holds, with their size in bytes
+  sizeOf: (state: T) => Map<object, number>;
+  // One state from two consecutive edits of a group: what the first replaced wins
+  merge: (earlier: T, later: T) => T;
+}
+
+interface UndoStep<T> {
+  label: string; // shown on the LCD, e.g. "DELETE SOUND"
+  state: T;
+  group?: string;
+}
+
+export class UndoHistory<T> {
+  private undoSteps: UndoStep<T>[] = [];
+  private redoSteps: UndoStep<T>[] = [];
+
+  constructor(
+    private options: UndoOptions<T>,
+    private maxSteps = MAX_UNDO_STEPS,
+    private budget = UNDO_BUDGET
+  ) {}
+
+  get canUndo(): boolean {
+    return this.undoSteps.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoSteps.length > 0;
+  }
+
+  /**
+   * Record what an edit replaced. Consecutive edits in the same group
+   * (e.g. one fader move) become a single step. Clears the redo steps.
+   */
+  push(label: string, replaced: T, group?: string): void {
+    this.redoSteps = [];
+    const last = this.undoSteps[this.undoSteps.length - 1];
+    if (group !== undefined && last?.group === group) {
+      last.state = this.options.merge(last.state, replaced);
+    } else {
+      this.undoSteps.push({ label, state: replaced, group });
+    }
+    this.trim();
+  }
+
+  /**
+   * Put back the last step with `restore`, which returns what it replaced.
+   * Returns the step's label, or null when there is nothing to undo.
+   */
+  undo(restore: (state: T) => T): string | null {
+    const step = this.undoSteps.pop();
+    if (!step) return null;
+    this.redoSteps.push({ label: step.label, state: restore(step.state) });
+    return step.label;
+  }
+
+  redo(restore: (state: T) => T): string | null {
+    const step = this.redoSteps.pop();
+    if (!step) return null;
+    this.undoSteps.push({ label: step.label, state: restore(step.state) });
+    return step.label;
+  }
+
+  clear(): void {
+    this.undoSteps = [];
+    this.redoSteps = [];
+  }
+
+  // Forget the oldest steps past the step limit or the memory budget
+  private trim(): void {
+    const excess = this.undoSteps.length - this.maxSteps;
+    if (excess > 0) this.undoSteps.splice(0, excess);
+    while (this.undoSteps.length > 1 && this.size() > this.budget) {
+      this.undoSteps.shift();
+    }
+  }
+
+  // Bytes held, counting an object shared by several steps once
+  private size(): number {
+    const objects = new Map<object, number>();
+    for (const step of [...this.undoSteps, ...this.redoSteps]) {
+      this.options.sizeOf(step.state).forEach((bytes, object) => objects.set(object, bytes));
+    }
+    let total = 0;
+    objects.forEach((bytes) => (total += bytes));
+    return total;
+  }
+}
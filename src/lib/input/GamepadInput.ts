@@ -0,0 +1,73 @@
+/**
+ * SP-1200 Gamepad Input
+ * Polls connected gamepads once per animation frame while anyone listens
+ * and reports button presses and releases (not holds), with the analog
+ * value so pressure-sensitive triggers can play velocity.
+ */
+
+export interface GamepadPress {
+  gamepad: number; // Gamepad.index
+  button: number; // standard layout index
+  value: number; // 0-1, analog buttons report how far they are pressed
+  pressed: boolean; // false when the button is let go
+}
+
+type GamepadListener = (press: GamepadPress) => void;
+
+const PRESS_THRESHOLD = 0.1; // analog value that counts as a press
+
+class GamepadInput {
+  private listeners: GamepadListener[] = [];
+  private pressed: Map<number, boolean[]> = new Map(); // gamepad index -> button states
+  private frameId: number | null = null;
+
+  subscribe(callback: GamepadListener): () => void {
+    this.listeners.push(callback);
+    this.startPolling();
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+      if (this.listeners.length === 0) this.stopPolling();
+    };
+  }
+
+  private startPolling(): void {
+    if (this.frameId !== null || typeof navigator === 'undefined' || !navigator.getGamepads) {
+      return;
+    }
+    const poll = () => {
+      this.poll();
+      this.frameId = requestAnimationFrame(poll);
+    };
+    this.frameId = requestAnimationFrame(poll);
+  }
+
+  private stopPolling(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.pressed.clear();
+  }
+
+  private poll(): void {
+    for (const gamepad of navigator.getGamepads()) {
+      if (!gamepad) continue;
+
+      const previous = this.pressed.get(gamepad.index) ?? [];
+      const current = gamepad.buttons.map(
+        (button) => button.pressed || button.value >= PRESS_THRESHOLD
+      );
+      current.forEach((isPressed, button) => {
+        if (isPressed === !!previous[button]) return;
+        // Digital buttons report 0 or 1
+        const value = isPressed ? gamepad.buttons[button].value || 1 : 0;
+        const press = { gamepad: gamepad.index, button, value, pressed: isPressed };
+        this.listeners.forEach((cb) => cb(press));
+      });
+      this.pressed.set(gamepad.index, current);
+    }
+  }
+}
+
+// Singleton instance
+export const gamepadInput = new GamepadInput();
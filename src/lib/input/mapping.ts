@@ -0,0 +1,198 @@
+/**
+ * SP-1200 input mapping
+ * Binds computer keys (by physical key, so layouts do not matter) and
+ * gamepad buttons (standard layout) to front-panel controls: the pads,
+ * the numeric keypad and the transport.
+ */
+
+export const INPUT_ACTIONS = [
+  'pad1',
+  'pad2',
+  'pad3',
+  'pad4',
+  'pad5',
+  'pad6',
+  'pad7',
+  'pad8',
+  'key1',
+  'key2',
+  'key3',
+  'key4',
+  'key5',
+  'key6',
+  'key7',
+  'key8',
+  'key9',
+  'key0',
+  'tempo',
+  'left',
+  'right',
+  'enter',
+  'tap',
+  'runStop',
+  'record',
+] as const;
+
+export type InputAction = (typeof INPUT_ACTIONS)[number];
+
+export type InputBinding = { type: 'key'; code: string } | { type: 'button'; index: number };
+
+export interface InputMapping {
+  keys: Record<string, InputAction>; // KeyboardEvent.code -> action
+  buttons: Record<number, InputAction>; // gamepad button index -> action
+}
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  pad1: 'Pad 1',
+  pad2: 'Pad 2',
+  pad3: 'Pad 3',
+  pad4: 'Pad 4',
+  pad5: 'Pad 5',
+  pad6: 'Pad 6',
+  pad7: 'Pad 7',
+  pad8: 'Pad 8',
+  key1: 'Key 1',
+  key2: 'Key 2',
+  key3: 'Key 3',
+  key4: 'Key 4',
+  key5: 'Key 5',
+  key6: 'Key 6',
+  key7: 'Key 7 / No',
+  key8: 'Key 8',
+  key9: 'Key 9 / Yes',
+  key0: 'Key 0',
+  tempo: 'Tempo',
+  left: '◀',
+  right: '▶',
+  enter: 'Enter',
+  tap: 'Tap/Repeat',
+  runStop: 'Run/Stop',
+  record: 'Record/Edit',
+};
+
+// Standard gamepad layout (https://w3c.github.io/gamepad/#remapping)
+const BUTTON_NAMES = [
+  'A',
+  'B',
+  'X',
+  'Y',
+  'LB',
+  'RB',
+  'LT',
+  'RT',
+  'Back',
+  'Start',
+  'L3',
+  'R3',
+  'Up',
+  'Down',
+  'Left',
+  'Right',
+  'Home',
+];
+
+const DIGITS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 0];
+
+export const DEFAULT_INPUT_MAPPING: InputMapping = {
+  keys: {
+    // Pads on the home row
+    ...Object.fromEntries(
+      ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK'].map((code, i) => [
+        code,
+        `pad${i + 1}` as InputAction,
+      ])
+    ),
+    // Keypad on the number row and the numeric keypad
+    ...Object.fromEntries(DIGITS.map((digit) => [`Digit${digit}`, `key${digit}` as InputAction])),
+    ...Object.fromEntries(DIGITS.map((digit) => [`Numpad${digit}`, `key${digit}` as InputAction])),
+    KeyQ: 'tempo',
+    ArrowLeft: 'left',
+    ArrowRight: 'right',
+    Enter: 'enter',
+    NumpadEnter: 'enter',
+    KeyT: 'tap',
+    Space: 'runStop',
+    KeyR: 'record',
+  },
+  buttons: {
+    0: 'pad1',
+    1: 'pad2',
+    2: 'pad3',
+    3: 'pad4',
+    4: 'pad5',
+    5: 'pad6',
+    6: 'pad7', // analog triggers give velocity
+    7: 'pad8',
+    8: 'record',
+    9: 'runStop',
+    10: 'tap',
+    12: 'tempo',
+    13: 'enter',
+    14: 'left',
+    15: 'right',
+  },
+};
+
+/**
+ * Action bound to a key or button, if any
+ */
+export function getBoundAction(mapping: InputMapping, binding: InputBinding): InputAction | null {
+  return binding.type === 'key'
+    ? (mapping.keys[binding.code] ?? null)
+    : (mapping.buttons[binding.index] ?? null);
+}
+
+/**
+ * Every key and button bound to an action
+ */
+export function getBindings(mapping: InputMapping, action: InputAction): InputBinding[] {
+  return [
+    ...Object.entries(mapping.keys)
+      .filter(([, bound]) => bound === action)
+      .map(([code]): InputBinding => ({ type: 'key', code })),
+    ...Object.entries(mapping.buttons)
+      .filter(([, bound]) => bound === action)
+      .map(([index]): InputBinding => ({ type: 'button', index: Number(index) })),
+  ];
+}
+
+/**
+ * Return a copy of the mapping with the key or button bound to an action.
+ * It replaces the action's other bindings of the same kind (keys or buttons).
+ */
+export function bindInput(
+  mapping: InputMapping,
+  binding: InputBinding,
+  action: InputAction
+): InputMapping {
+  const cleared = unbindAction(mapping, action, binding.type);
+  if (binding.type === 'key') {
+    return { ...cleared, keys: { ...cleared.keys, [binding.code]: action } };
+  }
+  return { ...cleared, buttons: { ...cleared.buttons, [binding.index]: action } };
+}
+
+/**
+ * Return a copy of the mapping with an action's keys and/or buttons removed
+ */
+export function unbindAction(
+  mapping: InputMapping,
+  action: InputAction,
+  type?: InputBinding['type']
+): InputMapping {
+  const keep = <K extends string | number>(record: Record<K, InputAction>, kind: InputBinding['type']) =>
+    Object.fromEntries(
+      Object.entries(record).filter(([, bound]) => bound !== action || (type && type !== kind))
+    ) as Record<K, InputAction>;
+  return { keys: keep(mapping.keys, 'key'), buttons: keep(mapping.buttons, 'button') };
+}
+
+/**
+ * Short name of a binding for display ("A", "1", "Space", "Pad RB")
+ */
+export function formatBinding(binding: InputBinding): string {
+  if (binding.type === 'button') {
+    return `Pad ${BUTTON_NAMES[binding.index] ?? binding.index}`;
+  }
+  return binding.code.replace(/^(Key|Digit)/, '').replace(/^Numpad/, 'Num ');
+}
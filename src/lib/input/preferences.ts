@@ -0,0 +1,46 @@
+/**
+ * SP-1200 preferences
+ * Per-browser settings kept in localStorage, apart from projects and the
+ * session: they belong to the player, not to the music.
+ */
+
+import { DEFAULT_INPUT_MAPPING, InputMapping } from './mapping';
+import { ImportSort } from '@/lib/audio/sampleImport';
+
+const STORAGE_KEY = 'sp1200-preferences';
+
+export interface Preferences {
+  inputMapping: InputMapping;
+  importSort: ImportSort; // order of dropped files across the pads
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  inputMapping: DEFAULT_INPUT_MAPPING,
+  importSort: 'name',
+};
+
+/**
+ * Stored preferences over the defaults. Defaults on the server, or when
+ * storage is unavailable or holds something unreadable.
+ */
+export function loadPreferences(): Preferences {
+  if (typeof localStorage === 'undefined') return DEFAULT_PREFERENCES;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<Preferences>;
+    return { ...DEFAULT_PREFERENCES, ...stored };
+  } catch (error) {
+    console.warn('[Preferences] Ignoring unreadable preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+/**
+ * Store some preferences, keeping the others
+ */
+export function savePreferences(preferences: Partial<Preferences>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadPreferences(), ...preferences }));
+  } catch (error) {
+    console.warn('[Preferences] Could not save preferences:', error);
+  }
+}
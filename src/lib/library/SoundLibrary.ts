@@ -0,0 +1,250 @@
+/**
+ * SP-1200 Sound Library
+ * Local IndexedDB store of decoded sounds and sequence sets with tags.
+ * Entries are keyed by a SHA-256 content hash, so identical material is
+ * only stored once. Also keeps the auto-saved session restored on startup.
+ */
+
+import { ProjectSequences, ProjectSound, ProjectSounds } from '@/lib/project/projectFile';
+
+const DB_NAME = 'sp1200-library';
+const DB_VERSION = 1;
+const SOUNDS = 'sounds'; // LibrarySound, keyed by hash
+const SOUND_DATA = 'soundData'; // PCM, keyed by hash (kept apart so browsing stays light)
+const SEQUENCES = 'sequences'; // LibrarySequences, keyed by hash
+const SESSION = 'session'; // one record under SESSION_KEY
+const SESSION_KEY = 'current';
+
+export type LibraryKind = 'sounds' | 'sequences';
+
+export interface LibraryEntry {
+  hash: string;
+  name: string;
+  tags: string[];
+  addedAt: number; // ms since epoch
+}
+
+export interface LibrarySound extends LibraryEntry {
+  duration: number; // seconds
+  sampleRate: number;
+  channels: number;
+}
+
+export interface LibrarySequences extends LibraryEntry {
+  patternCount: number;
+  songCount: number;
+  data: ProjectSequences;
+}
+
+interface SoundDataRecord {
+  hash: string;
+  data: Float32Array[];
+}
+
+/**
+ * Auto-saved session: like a project, but sounds refer to library hashes
+ */
+export interface SessionSound extends Omit<ProjectSound, 'data' | 'sampleRate'> {
+  hash: string;
+}
+
+export interface Session {
+  sequences: ProjectSequences;
+  sounds: Omit<ProjectSounds, 'sounds' | 'polyphony'> & {
+    sounds: Record<number, SessionSound>;
+    polyphony?: number; // absent in sessions saved before Set-up 23 had it
+  };
+}
+
+class SoundLibrary {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Store a sound. An identical sound already in the library is kept
+   * (its tags are merged) instead of being stored twice.
+   */
+  async addSound(
+    name: string,
+    sampleRate: number,
+    data: Float32Array[],
+    tags: string[] = []
+  ): Promise<LibrarySound> {
+    const hash = await hashContent([new Float64Array([sampleRate]), ...data]);
+    const existing = await this.get<LibrarySound>(SOUNDS, hash);
+    if (existing) {
+      return this.mergeTags(SOUNDS, existing, tags);
+    }
+
+    const entry: LibrarySound = {
+      hash,
+      name,
+      tags: normalizeTags(tags),
+      addedAt: Date.now(),
+      duration: (data[0]?.length ?? 0) / sampleRate,
+      sampleRate,
+      channels: data.length,
+    };
+    const tx = (await this.open()).transaction([SOUNDS, SOUND_DATA], 'readwrite');
+    tx.objectStore(SOUNDS).put(entry);
+    tx.objectStore(SOUND_DATA).put({ hash, data } satisfies SoundDataRecord);
+    await transactionDone(tx);
+    console.log(`[SoundLibrary] Stored ${name} (${hash.slice(0, 8)})`);
+    return entry;
+  }
+
+  /**
+   * PCM and sample rate of a stored sound
+   */
+  async getSound(hash: string): Promise<{ entry: LibrarySound; data: Float32Array[] } | null> {
+    const entry = await this.get<LibrarySound>(SOUNDS, hash);
+    const record = await this.get<SoundDataRecord>(SOUND_DATA, hash);
+    if (!entry || !record) return null;
+    return { entry, data: record.data };
+  }
+
+  /**
+   * Store a sequence set (all patterns and songs). Identical sets are kept once.
+   */
+  async addSequences(
+    name: string,
+    data: ProjectSequences,
+    tags: string[] = []
+  ): Promise<LibrarySequences> {
+    const hash = await hashContent([new TextEncoder().encode(JSON.stringify(data))]);
+    const existing = await this.get<LibrarySequences>(SEQUENCES, hash);
+    if (existing) {
+      return this.mergeTags(SEQUENCES, existing, tags);
+    }
+
+    const entry: LibrarySequences = {
+      hash,
+      name,
+      tags: normalizeTags(tags),
+      addedAt: Date.now(),
+      patternCount: Object.keys(data.patterns).length,
+      songCount: Object.keys(data.songs).length,
+      data,
+    };
+    await this.put(SEQUENCES, entry);
+    return entry;
+  }
+
+  async getSequences(hash: string): Promise<LibrarySequences | null> {
+    return this.get<LibrarySequences>(SEQUENCES, hash);
+  }
+
+  /**
+   * Catalog: entries whose name or tags contain every word of the query,
+   * newest first
+   */
+  async search(kind: LibraryKind, query = ''): Promise<LibraryEntry[]> {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const entries = await this.getAll<LibraryEntry>(kind === 'sounds' ? SOUNDS : SEQUENCES);
+    return entries
+      .filter((entry) => {
+        const text = [entry.name, ...entry.tags].join(' ').toLowerCase();
+        return words.every((word) => text.includes(word));
+      })
+      .sort((a, b) => b.addedAt - a.addedAt);
+  }
+
+  async setTags(kind: LibraryKind, hash: string, tags: string[]): Promise<void> {
+    const store = kind === 'sounds' ? SOUNDS : SEQUENCES;
+    const entry = await this.get<LibraryEntry>(store, hash);
+    if (!entry) return;
+    await this.put(store, { ...entry, tags: normalizeTags(tags) });
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    const tx = (await this.open()).transaction(SESSION, 'readwrite');
+    tx.objectStore(SESSION).put(session, SESSION_KEY);
+    await transactionDone(tx);
+  }
+
+  async loadSession(): Promise<Session | null> {
+    return this.get<Session>(SESSION, SESSION_KEY);
+  }
+
+  private async mergeTags<T extends LibraryEntry>(store: string, entry: T, tags: string[]): Promise<T> {
+    const merged = normalizeTags([...entry.tags, ...tags]);
+    if (merged.length === entry.tags.length) return entry;
+    const updated = { ...entry, tags: merged };
+    await this.put(store, updated);
+    return updated;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(SOUNDS, { keyPath: 'hash' });
+          db.createObjectStore(SOUND_DATA, { keyPath: 'hash' });
+          db.createObjectStore(SEQUENCES, { keyPath: 'hash' });
+          db.createObjectStore(SESSION);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async get<T>(store: string, key: string): Promise<T | null> {
+    const request = (await this.open()).transaction(store).objectStore(store).get(key);
+    return ((await requestDone(request)) as T | undefined) ?? null;
+  }
+
+  private async getAll<T>(store: string): Promise<T[]> {
+    const request = (await this.open()).transaction(store).objectStore(store).getAll();
+    return (await requestDone(request)) as T[];
+  }
+
+  private async put(store: string, value: unknown): Promise<void> {
+    const tx = (await this.open()).transaction(store, 'readwrite');
+    tx.objectStore(store).put(value);
+    await transactionDone(tx);
+  }
+}
+
+function requestDone<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * SHA-256 of the concatenated bytes, as hex
+ */
+async function hashContent(parts: ArrayBufferView[]): Promise<string> {
+  const length = parts.reduce((sum, part) => sum + part.byteLength, 0);
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(new Uint8Array(part.buffer, part.byteOffset, part.byteLength), offset);
+    offset += part.byteLength;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Singleton instance
+export const soundLibrary = new SoundLibrary();
@@ -0,0 +1,234 @@
+/**
+ * SP-1200 LCD menus
+ * A menu-column button followed by a number opens one of the numbered
+ * functions. A function shows a prompt on the 2x16 LCD and edits a field:
+ * digits typed on the keypad under a cursor moved with ◀/▶, a choice
+ * stepped with ◀/▶, or a Yes (9) / No (7) question. Enter commits.
+ */
+
+import { SYNC_LABELS, SYNC_MODES } from '@/lib/sync/sources';
+
+export const LCD_WIDTH = 16;
+export const YES_KEY = 9;
+export const NO_KEY = 7;
+
+export type LcdLines = [string, string];
+
+export interface LcdView {
+  lines: LcdLines;
+  cursor: number | null; // column of the cursor on the second line
+}
+
+export type MenuColumn = 'setup' | 'disk' | 'sync' | 'sample';
+
+// What opened a prompt: a menu column, or a button with its own prompt
+export type MenuSource = MenuColumn | 'tempo' | 'song';
+
+export const MENU_TITLES: Record<MenuColumn, string> = {
+  setup: 'SET-UP',
+  disk: 'DISK',
+  sync: 'SYNC',
+  sample: 'SAMPLE',
+};
+
+// Set-up functions are numbered 11-23, the other columns 0-9
+export const MENU_DIGITS: Record<MenuColumn, number> = {
+  setup: 2,
+  disk: 1,
+  sync: 1,
+  sample: 1,
+};
+
+export interface MenuItem {
+  number: number;
+  name: string;
+}
+
+// Items in panel order
+export const MENU_ITEMS: Record<MenuColumn, MenuItem[]> = {
+  setup: [
+    { number: 11, name: 'Multi Pitch' },
+    { number: 12, name: 'Multi Level' },
+    { number: 13, name: 'Exit Multi Mode' },
+    { number: 14, name: 'Dynamic Buttons' },
+    { number: 15, name: 'Delete Mix' },
+    { number: 16, name: 'Select Mix' },
+    { number: 17, name: 'Channel Assign' },
+    { number: 18, name: 'Decay/Tune Select' },
+    { number: 19, name: 'Loop/Truncate' },
+    { number: 20, name: 'Delete Sound' },
+    { number: 21, name: '1st Song/Step' },
+    { number: 22, name: 'MIDI Parameters' },
+    { number: 23, name: 'Special' },
+  ],
+  disk: [
+    { number: 1, name: 'Save Sequences' },
+    { number: 2, name: 'Save Sounds' },
+    { number: 3, name: 'Load Sequences' },
+    { number: 4, name: 'Load Segment #' },
+    { number: 5, name: 'Load Sounds' },
+    { number: 6, name: 'Load Sound #' },
+    { number: 7, name: 'Catalog Sequences' },
+    { number: 8, name: 'Catalog Sounds' },
+    { number: 9, name: 'Save Sequences and Sounds' },
+    { number: 0, name: 'Load Sequences and Sounds' },
+  ],
+  sync: SYNC_MODES.map((mode, i) => ({ number: i + 1, name: SYNC_LABELS[mode] })),
+  sample: [
+    { number: 1, name: 'VU Mode' },
+    { number: 2, name: 'Assign Voice' },
+    { number: 3, name: 'Level' },
+    { number: 4, name: 'Threshold Set' },
+    { number: 5, name: 'Sample Length' },
+    { number: 6, name: 'Re-Sample' },
+    { number: 7, name: 'Arm Sampling' },
+    { number: 8, name: 'Force Sampling' },
+  ],
+};
+
+/**
+ * Field a prompt edits. Digits fill the '#' places of the mask; the other
+ * mask characters are shown as they are.
+ */
+export type MenuField =
+  | { type: 'digits'; mask: string; digits: string; cursor: number }
+  | { type: 'choice'; options: string[]; index: number }
+  | { type: 'confirm' };
+
+/**
+ * What a menu step leads to: another prompt, a message that closes the
+ * menu, or null to close it quietly
+ */
+export type MenuResult = MenuPrompt | string | null;
+
+export interface MenuPrompt {
+  title: string; // first LCD line
+  field: MenuField;
+  commit: (field: MenuField) => MenuResult | Promise<MenuResult>;
+}
+
+export type MenuScreen =
+  | { type: 'select'; source: MenuColumn; entry: string } // digits of the function number so far
+  | { type: 'prompt'; source: MenuSource; prompt: MenuPrompt };
+
+const countDigits = (mask: string) => mask.split('#').length - 1;
+
+/**
+ * Prompt for a number typed on the keypad, e.g. mask "SEGMENT ##"
+ */
+export function digitsPrompt(
+  title: string,
+  mask: string,
+  value: number | string,
+  commit: (digits: string) => MenuResult | Promise<MenuResult>
+): MenuPrompt {
+  const count = countDigits(mask);
+  const digits = String(value).padStart(count, '0').slice(-count);
+  return {
+    title,
+    field: { type: 'digits', mask, digits, cursor: 0 },
+    commit: (field) => commit(field.type === 'digits' ? field.digits : digits),
+  };
+}
+
+/**
+ * Prompt for one of a list of options
+ */
+export function choicePrompt(
+  title: string,
+  options: string[],
+  index: number,
+  commit: (index: number) => MenuResult | Promise<MenuResult>
+): MenuPrompt {
+  return {
+    title,
+    field: { type: 'choice', options, index: Math.max(0, index) },
+    commit: (field) => commit(field.type === 'choice' ? field.index : index),
+  };
+}
+
+/**
+ * Yes/No question before a destructive action; commit runs on Yes
+ */
+export function confirmPrompt(
+  title: string,
+  commit: () => MenuResult | Promise<MenuResult>
+): MenuPrompt {
+  return { title, field: { type: 'confirm' }, commit };
+}
+
+/**
+ * Keypad digit into a digits field: replaces the digit under the cursor
+ * and moves on to the next one
+ */
+export function typeDigit(field: MenuField, digit: number): MenuField {
+  if (field.type !== 'digits') return field;
+  const digits = field.digits.slice(0, field.cursor) + digit + field.digits.slice(field.cursor + 1);
+  return { ...field, digits, cursor: Math.min(field.digits.length - 1, field.cursor + 1) };
+}
+
+/**
+ * ◀/▶: move the cursor of a digits field, or step through a choice
+ */
+export function moveCursor(field: MenuField, delta: 1 | -1): MenuField {
+  switch (field.type) {
+    case 'digits':
+      return { ...field, cursor: Math.max(0, Math.min(field.digits.length - 1, field.cursor + delta)) };
+    case 'choice':
+      return {
+        ...field,
+        index: (field.index + delta + field.options.length) % field.options.length,
+      };
+    default:
+      return field;
+  }
+}
+
+/**
+ * Text of a field, with the column the cursor sits on (digits only)
+ */
+export function formatField(field: MenuField): { text: string; cursor: number | null } {
+  switch (field.type) {
+    case 'digits': {
+      let next = 0;
+      let cursor: number | null = null;
+      const text = field.mask.replace(/#/g, (_, offset: number) => {
+        if (next === field.cursor) cursor = offset;
+        return field.digits[next++];
+      });
+      return { text, cursor };
+    }
+    case 'choice':
+      return { text: field.options[field.index] ?? '', cursor: null };
+    case 'confirm':
+      return { text: `YES=${YES_KEY}  NO=${NO_KEY}`, cursor: null };
+  }
+}
+
+/**
+ * Pad or cut a line to the LCD width
+ */
+export function fitLcd(text: string): string {
+  return text.substring(0, LCD_WIDTH).padEnd(LCD_WIDTH);
+}
+
+/**
+ * A message on the LCD, wrapped onto the second line at a word boundary
+ */
+export function formatMessage(text: string): LcdView {
+  let split = text.length <= LCD_WIDTH ? text.length : text.lastIndexOf(' ', LCD_WIDTH);
+  if (split <= 0) split = LCD_WIDTH;
+  return { lines: [fitLcd(text.substring(0, split)), fitLcd(text.substring(split).trim())], cursor: null };
+}
+
+/**
+ * LCD for an open menu: the column waiting for a number, or a prompt
+ */
+export function formatMenu(screen: MenuScreen): LcdView {
+  if (screen.type === 'select') {
+    const entry = screen.entry.padEnd(MENU_DIGITS[screen.source], '_');
+    return { lines: [fitLcd(MENU_TITLES[screen.source]), fitLcd(`FUNCTION ${entry}`)], cursor: null };
+  }
+  const { text, cursor } = formatField(screen.prompt.field);
+  return { lines: [fitLcd(screen.prompt.title), fitLcd(text)], cursor };
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { audioEngine } from '@/lib/audio/AudioEngine';
+import { ClockEvent, MidiClock } from '@/lib/sync/sources';
+import { midiController } from './MidiController';
+import { MidiMessage } from './messages';
+import { FakeMidiPort, createFakeMidiAccess } from './ports';
+
+const NOW = 10; // audio clock while the tests run
+const PERFORMANCE_NOW = 5000; // and the performance clock, in ms
+
+let port: FakeMidiPort;
+let messages: { message: MidiMessage; time: number }[];
+let unsubscribe: () => void;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(audioEngine, 'currentTime', 'get').mockReturnValue(NOW);
+  vi.spyOn(performance, 'now').mockReturnValue(PERFORMANCE_NOW);
+  port = new FakeMidiPort();
+  await midiController.enable(createFakeMidiAccess([port]));
+  midiController.selectInput(port.id);
+  midiController.selectOutput(port.id);
+  messages = [];
+  unsubscribe = midiController.subscribe((event) => {
+    if (event.type === 'message') messages.push(event);
+  });
+});
+
+afterEach(() => {
+  unsubscribe();
+  midiController.disable();
+  vi.restoreAllMocks();
+});
+
+describe('MidiController', () => {
+  it('parses input and stamps it on the audio clock', () => {
+    port.receive([0x91, 40, 100], PERFORMANCE_NOW - 20);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].message).toEqual({ type: 'noteOn', channel: 1, note: 40, velocity: 100 });
+    expect(messages[0].time).toBeCloseTo(NOW - 0.02);
+  });
+
+  it('ignores input from ports that are not selected', () => {
+    midiController.selectInput(null);
+    port.receive([0x90, 36, 100]);
+    expect(messages).toEqual([]);
+  });
+
+  it('estimates the tempo of an incoming clock and forgets it on Stop', () => {
+    const start = PERFORMANCE_NOW - 1000;
+    const msPerClock = 60000 / 120 / 24;
+    for (let i = 0; i < 24; i++) port.receive([0xf8], start + i * msPerClock);
+    expect(midiController.clockTempo).toBeCloseTo(120, 6);
+
+    port.receive([0xfc]);
+    expect(midiController.clockTempo).toBeNull();
+  });
+
+  it('sends at an audio time on the performance clock', () => {
+    midiController.send({ type: 'noteOn', channel: 0, note: 36, velocity: 127 }, NOW + 0.5);
+    midiController.send({ type: 'clock' });
+
+    expect(port.sent).toEqual([
+      { data: [0x90, 36, 127], timeStamp: PERFORMANCE_NOW + 500 },
+      { data: [0xf8], timeStamp: undefined },
+    ]);
+  });
+});
+
+describe('MidiClock', () => {
+  let clock: MidiClock;
+  let events: ClockEvent[];
+
+  beforeEach(() => {
+    clock = new MidiClock();
+    events = [];
+    clock.open((event) => events.push(event));
+  });
+
+  afterEach(() => clock.close());
+
+  it('starts from the top and pulses every clock, 4 ticks apart', () => {
+    port.receive([0xf8]); // not running yet
+    port.receive([0xfa]);
+    port.receive([0xf8]);
+    port.receive([0xf8]);
+
+    expect(events.map((e) => e.type)).toEqual(['start', 'pulse', 'pulse']);
+    expect(events[0]).toEqual({ type: 'start', tick: 0 });
+    expect(events.slice(1).map((e) => (e.type === 'pulse' ? e.tick : null))).toEqual([0, 4]);
+  });
+
+  it('stops, then continues from where it stopped', () => {
+    port.receive([0xfa]);
+    for (let i = 0; i < 24; i++) port.receive([0xf8]);
+    port.receive([0xfc]);
+    port.receive([0xfb]);
+
+    expect(events.slice(-2)).toEqual([{ type: 'stop' }, { type: 'start', tick: 96 }]);
+  });
+
+  it('continues from a Song Position Pointer received while stopped', () => {
+    port.receive([0xf2, 8, 0]); // 8 sixteenths = two beats
+    port.receive([0xfb]);
+    port.receive([0xf8]);
+
+    expect(events[0]).toEqual({ type: 'start', tick: 2 * 96 });
+    expect(events[1]).toMatchObject({ type: 'pulse', tick: 2 * 96 });
+  });
+
+  it('ignores a Song Position Pointer while running', () => {
+    port.receive([0xfa]);
+    port.receive([0xf2, 8, 0]);
+    port.receive([0xf8]);
+
+    expect(events[1]).toMatchObject({ type: 'pulse', tick: 0 });
+  });
+
+  it('passes the clock tempo with its pulses', () => {
+    const start = PERFORMANCE_NOW - 1000;
+    port.receive([0xfa], start);
+    for (let i = 0; i < 3; i++) port.receive([0xf8], start + (i * 60000) / 90 / 24);
+
+    const last = events[events.length - 1];
+    expect(last.type === 'pulse' && last.bpm).toBeCloseTo(90, 6);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * SP-1200 MIDI Controller
+ * Owns the MIDI ports: parses input into messages stamped with audio
+ * time, estimates the tempo of an incoming clock and sends messages out
+ * at audio times. Works on any MidiAccess (Web MIDI or fake ports).
+ */
+
+import { audioEngine } from '@/lib/audio/AudioEngine';
+import { MidiMessage, CLOCKS_PER_QUARTER, buildMidiMessage, parseMidiMessage } from './messages';
+import { MidiAccess, MidiInputPort, MidiOutputPort, MidiPortInfo, requestWebMidi } from './ports';
+
+export type MidiEvent =
+  | { type: 'message'; message: MidiMessage; time: number } // time on the audio clock
+  | { type: 'ports' };
+
+type MidiListener = (event: MidiEvent) => void;
+
+const CLOCK_WINDOW = CLOCKS_PER_QUARTER; // clocks averaged for the tempo estimate
+
+class MidiController {
+  private access: MidiAccess | null = null;
+  private input: MidiInputPort | null = null;
+  private output: MidiOutputPort | null = null;
+  private stopListening: (() => void) | null = null;
+  private stopWatchingPorts: (() => void) | null = null;
+  private clockTimes: number[] = [];
+  private listeners: MidiListener[] = [];
+
+  /**
+   * Open MIDI. Uses Web MIDI unless another access is given (e.g. fake ports).
+   */
+  async enable(access?: MidiAccess): Promise<void> {
+    this.disable();
+    this.access = access ?? (await requestWebMidi());
+    this.stopWatchingPorts = this.access.onPortsChanged(() => this.emit({ type: 'ports' }));
+    console.log('[MidiController] Enabled');
+  }
+
+  disable(): void {
+    this.selectInput(null);
+    this.output = null;
+    this.stopWatchingPorts?.();
+    this.stopWatchingPorts = null;
+    this.access = null;
+  }
+
+  get enabled(): boolean {
+    return this.access !== null;
+  }
+
+  getInputs(): MidiPortInfo[] {
+    return this.access?.inputs().map(({ id, name }) => ({ id, name })) ?? [];
+  }
+
+  getOutputs(): MidiPortInfo[] {
+    return this.access?.outputs().map(({ id, name }) => ({ id, name })) ?? [];
+  }
+
+  /**
+   * Listen to one input (null = none)
+   */
+  selectInput(id: string | null): void {
+    this.stopListening?.();
+    this.stopListening = null;
+    this.input = this.access?.inputs().find((port) => port.id === id) ?? null;
+    this.clockTimes = [];
+    if (this.input) {
+      this.stopListening = this.input.listen((data, timeStamp) => this.handleData(data, timeStamp));
+    }
+  }
+
+  selectOutput(id: string | null): void {
+    this.output = this.access?.outputs().find((port) => port.id === id) ?? null;
+  }
+
+  /**
+   * Send a message, at an audio time or now
+   */
+  send(message: MidiMessage, time?: number): void {
+    if (!this.output) return;
+    const timeStamp =
+      time === undefined ? undefined : performance.now() + (time - audioEngine.currentTime) * 1000;
+    this.output.send(buildMidiMessage(message), timeStamp);
+  }
+
+  /**
+   * Tempo of the incoming clock in BPM, or null until enough clocks arrived
+   */
+  get clockTempo(): number | null {
+    if (this.clockTimes.length < 2) return null;
+    const span = this.clockTimes[this.clockTimes.length - 1] - this.clockTimes[0];
+    if (span <= 0) return null;
+    const secondsPerClock = span / (this.clockTimes.length - 1);
+    return 60 / (secondsPerClock * CLOCKS_PER_QUARTER);
+  }
+
+  subscribe(callback: MidiListener): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  private handleData(data: Uint8Array, timeStamp: number): void {
+    const message = parseMidiMessage(data);
+    if (!message) return;
+
+    // Web MIDI stamps input on the performance.now() clock
+    const time = audioEngine.currentTime - (performance.now() - timeStamp) / 1000;
+
+    if (message.type === 'clock') {
+      this.clockTimes.push(time);
+      if (this.clockTimes.length > CLOCK_WINDOW + 1) this.clockTimes.shift();
+    } else if (message.type === 'stop') {
+      this.clockTimes = [];
+    }
+    this.emit({ type: 'message', message, time });
+  }
+
+  private emit(event: MidiEvent): void {
+    this.listeners.forEach((cb) => cb(event));
+  }
+}
+
+// Singleton instance
+export const midiController = new MidiController();
@@ -0,0 +1,51 @@
+/**
+ * SP-1200 MIDI parameters (Set-up 22)
+ * Notes map to the 32 sounds from a base note up (bank A pad 1 first);
+ * CCs map to the eight sliders through MIDI learn.
+ */
+
+import { SOUND_COUNT } from '@/lib/audio/banks';
+
+export interface MidiSettings {
+  inputId: string | null;
+  outputId: string | null;
+  channel: number | null; // 0-15, null = omni (receive on all, send on 1)
+  baseNote: number; // note of sound A1
+  echoNotes: boolean; // send pad hits out as notes
+  sendClock: boolean; // send clock and transport when on internal sync
+}
+
+export const DEFAULT_MIDI_SETTINGS: MidiSettings = {
+  inputId: null,
+  outputId: null,
+  channel: null,
+  baseNote: 36, // GM kick
+  echoNotes: true,
+  sendClock: false,
+};
+
+/**
+ * Sound index for a note, or null if it is outside the 32 sounds
+ */
+export function noteToSound(note: number, baseNote: number): number | null {
+  const soundIndex = note - baseNote;
+  return soundIndex >= 0 && soundIndex < SOUND_COUNT ? soundIndex : null;
+}
+
+export function soundToNote(soundIndex: number, baseNote: number): number {
+  return Math.min(127, baseNote + soundIndex);
+}
+
+/**
+ * Whether a message channel passes the receive channel setting
+ */
+export function acceptsChannel(settings: MidiSettings, channel: number): boolean {
+  return settings.channel === null || settings.channel === channel;
+}
+
+/**
+ * CC value (0-127) to slider value (0-100)
+ */
+export function ccToSliderValue(value: number): number {
+  return Math.round((value / 127) * 100);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { MidiMessage, buildMidiMessage, parseMidiMessage } from './messages';
+
+describe('parseMidiMessage', () => {
+  it('reads the channel from channel messages', () => {
+    expect(parseMidiMessage([0x95, 60, 100])).toEqual({ type: 'noteOn', channel: 5, note: 60, velocity: 100 });
+    expect(parseMidiMessage([0x8f, 60, 64])).toEqual({ type: 'noteOff', channel: 15, note: 60 });
+    expect(parseMidiMessage([0xb2, 7, 127])).toEqual({
+      type: 'controlChange',
+      channel: 2,
+      controller: 7,
+      value: 127,
+    });
+  });
+
+  it('treats a note on with velocity 0 as a note off', () => {
+    expect(parseMidiMessage([0x90, 60, 0])).toEqual({ type: 'noteOff', channel: 0, note: 60 });
+  });
+
+  it('reads a Song Position Pointer as 14 bits, LSB first', () => {
+    expect(parseMidiMessage([0xf2, 0x05, 0x02])).toEqual({ type: 'songPosition', beats: 0x105 });
+  });
+
+  it('reads clock and transport', () => {
+    expect([0xf8, 0xfa, 0xfb, 0xfc].map((status) => parseMidiMessage([status])?.type)).toEqual([
+      'clock',
+      'start',
+      'continue',
+      'stop',
+    ]);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseMidiMessage([])).toBeNull();
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull(); // pitch bend
+    expect(parseMidiMessage([0xfe])).toBeNull(); // active sensing
+  });
+});
+
+describe('buildMidiMessage', () => {
+  it('builds what it parses back', () => {
+    const messages: MidiMessage[] = [
+      { type: 'noteOn', channel: 9, note: 36, velocity: 1 },
+      { type: 'noteOff', channel: 0, note: 127 },
+      { type: 'controlChange', channel: 3, controller: 74, value: 0 },
+      { type: 'songPosition', beats: 16383 },
+      { type: 'clock' },
+      { type: 'start' },
+      { type: 'continue' },
+      { type: 'stop' },
+    ];
+    for (const message of messages) {
+      expect(parseMidiMessage(buildMidiMessage(message))).toEqual(message);
+    }
+  });
+
+  it('keeps data bytes to 7 bits', () => {
+    expect(buildMidiMessage({ type: 'noteOn', channel: 0, note: 200, velocity: 128 })).toEqual([0x90, 72, 0]);
+  });
+});
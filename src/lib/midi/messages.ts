@@ -0,0 +1,85 @@
+/**
+ * MIDI message parsing and building
+ * Covers what the SP-1200 uses: notes, control changes, clock and
+ * the song position / transport messages.
+ */
+
+export const CLOCKS_PER_QUARTER = 24; // MIDI clock resolution
+export const CLOCKS_PER_BEAT = 6; // Song Position Pointer counts 16th notes ("MIDI beats")
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+const SONG_POSITION = 0xf2;
+const CLOCK = 0xf8;
+const START = 0xfa;
+const CONTINUE = 0xfb;
+const STOP = 0xfc;
+
+export type MidiMessage =
+  | { type: 'noteOn'; channel: number; note: number; velocity: number }
+  | { type: 'noteOff'; channel: number; note: number }
+  | { type: 'controlChange'; channel: number; controller: number; value: number }
+  | { type: 'songPosition'; beats: number }
+  | { type: 'clock' }
+  | { type: 'start' }
+  | { type: 'continue' }
+  | { type: 'stop' };
+
+/**
+ * Parse a raw message. Returns null for anything not listed above.
+ * A note on with velocity 0 is a note off.
+ */
+export function parseMidiMessage(data: Uint8Array | number[]): MidiMessage | null {
+  const status = data[0];
+  if (status === undefined) return null;
+
+  switch (status) {
+    case CLOCK:
+      return { type: 'clock' };
+    case START:
+      return { type: 'start' };
+    case CONTINUE:
+      return { type: 'continue' };
+    case STOP:
+      return { type: 'stop' };
+    case SONG_POSITION:
+      return { type: 'songPosition', beats: (data[1] ?? 0) | ((data[2] ?? 0) << 7) };
+  }
+
+  const channel = status & 0x0f;
+  switch (status & 0xf0) {
+    case NOTE_ON:
+      if (data[2]) return { type: 'noteOn', channel, note: data[1], velocity: data[2] };
+      return { type: 'noteOff', channel, note: data[1] };
+    case NOTE_OFF:
+      return { type: 'noteOff', channel, note: data[1] };
+    case CONTROL_CHANGE:
+      return { type: 'controlChange', channel, controller: data[1], value: data[2] };
+  }
+  return null;
+}
+
+/**
+ * Raw bytes of a message
+ */
+export function buildMidiMessage(message: MidiMessage): number[] {
+  switch (message.type) {
+    case 'noteOn':
+      return [NOTE_ON | message.channel, message.note & 0x7f, message.velocity & 0x7f];
+    case 'noteOff':
+      return [NOTE_OFF | message.channel, message.note & 0x7f, 0];
+    case 'controlChange':
+      return [CONTROL_CHANGE | message.channel, message.controller & 0x7f, message.value & 0x7f];
+    case 'songPosition':
+      return [SONG_POSITION, message.beats & 0x7f, (message.beats >> 7) & 0x7f];
+    case 'clock':
+      return [CLOCK];
+    case 'start':
+      return [START];
+    case 'continue':
+      return [CONTINUE];
+    case 'stop':
+      return [STOP];
+  }
+}
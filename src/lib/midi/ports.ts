@@ -0,0 +1,108 @@
+/**
+ * MIDI port interface
+ * The MIDI layer talks to ports through these interfaces, so it can run
+ * on the browser's Web MIDI API or on fake ports driven by code.
+ */
+
+export interface MidiPortInfo {
+  id: string;
+  name: string;
+}
+
+export type MidiInputListener = (data: Uint8Array, timeStamp: number) => void;
+
+export interface MidiInputPort extends MidiPortInfo {
+  listen(callback: MidiInputListener): () => void;
+}
+
+export interface MidiOutputPort extends MidiPortInfo {
+  /**
+   * @param timeStamp performance.now() time to send at (omit = now)
+   */
+  send(data: number[], timeStamp?: number): void;
+}
+
+export interface MidiAccess {
+  inputs(): MidiInputPort[];
+  outputs(): MidiOutputPort[];
+  onPortsChanged(callback: () => void): () => void;
+}
+
+/**
+ * Web MIDI implementation. Rejects when the browser has no Web MIDI
+ * or the user denies access.
+ */
+export async function requestWebMidi(): Promise<MidiAccess> {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+    throw new Error('Web MIDI is not supported in this browser');
+  }
+  const access = await navigator.requestMIDIAccess();
+
+  const wrapInput = (input: MIDIInput): MidiInputPort => ({
+    id: input.id,
+    name: input.name ?? input.id,
+    listen: (callback) => {
+      const handler = (event: MIDIMessageEvent) => {
+        if (event.data) callback(event.data, event.timeStamp);
+      };
+      input.addEventListener('midimessage', handler);
+      return () => input.removeEventListener('midimessage', handler);
+    },
+  });
+
+  const wrapOutput = (output: MIDIOutput): MidiOutputPort => ({
+    id: output.id,
+    name: output.name ?? output.id,
+    send: (data, timeStamp) => output.send(data, timeStamp),
+  });
+
+  return {
+    inputs: () => Array.from(access.inputs.values(), wrapInput),
+    outputs: () => Array.from(access.outputs.values(), wrapOutput),
+    onPortsChanged: (callback) => {
+      const handler = () => callback();
+      access.addEventListener('statechange', handler);
+      return () => access.removeEventListener('statechange', handler);
+    },
+  };
+}
+
+/**
+ * Fake port pair for driving the MIDI layer from code:
+ * `receive` injects a message on the input, `sent` records the output.
+ */
+export class FakeMidiPort implements MidiInputPort, MidiOutputPort {
+  readonly sent: { data: number[]; timeStamp?: number }[] = [];
+  private listeners: MidiInputListener[] = [];
+
+  constructor(
+    readonly id = 'fake',
+    readonly name = 'Fake MIDI Port'
+  ) {}
+
+  listen(callback: MidiInputListener): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  send(data: number[], timeStamp?: number): void {
+    this.sent.push({ data: [...data], timeStamp });
+  }
+
+  receive(data: number[], timeStamp = performance.now()): void {
+    this.listeners.forEach((cb) => cb(new Uint8Array(data), timeStamp));
+  }
+}
+
+/**
+ * MidiAccess over fake ports (each port is both an input and an output)
+ */
+export function createFakeMidiAccess(ports: FakeMidiPort[] = [new FakeMidiPort()]): MidiAccess {
+  return {
+    inputs: () => ports,
+    outputs: () => ports,
+    onPortsChanged: () => () => {},
+  };
+}
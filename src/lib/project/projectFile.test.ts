@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_POLYPHONY } from '@/lib/audio/voices';
+import { createDefaultChannels } from '@/lib/audio/mixer';
+import { createPattern } from '@/lib/sequencer/pattern';
+import { PROJECT_VERSION, Project, decodeProject, encodeProject } from './projectFile';
+
+const project: Project = {
+  sequences: {
+    patterns: { 0: { ...createPattern(), events: [{ tick: 0, soundIndex: 1, velocity: 0.5 }] } },
+    songs: { 0: { steps: [{ type: 'segment', pattern: 0, repeats: 2 }] } },
+    tempo: 95.5,
+    swing: 54,
+    quantize: '1/16',
+  },
+  sounds: {
+    sounds: {
+      3: { name: 'KICK', sampleRate: 44100, data: [new Float32Array([0, 0.5, -0.25])] },
+      9: {
+        name: 'HAT',
+        sampleRate: 26040,
+        data: [new Float32Array([1, -1]), new Float32Array([0.125, 0.75])],
+        voice: { tune: 2, decay: 20 },
+        channel: 5,
+      },
+    },
+    sliderValues: [1, 2, 3, 4, 5, 6, 7, 8],
+    mixes: [{ name: 'MIX 1', channels: createDefaultChannels() }],
+    currentMix: 'MIX 1',
+    currentBank: 'B',
+    polyphony: 12,
+  },
+};
+
+// The manifest of an encoded project, rewritten (e.g. as an older version)
+function rewriteManifest(buffer: ArrayBuffer, edit: (manifest: Record<string, unknown>) => void): ArrayBuffer {
+  const manifestLength = new DataView(buffer).getUint32(4, true);
+  const manifest = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 8, manifestLength)));
+  edit(manifest);
+  const json = new TextEncoder().encode(JSON.stringify(manifest).padEnd(manifestLength));
+  expect(json.length).toBe(manifestLength);
+  const output = buffer.slice(0);
+  new Uint8Array(output).set(json, 8);
+  return output;
+}
+
+describe('project file', () => {
+  it('round-trips sequences, sounds and their PCM', () => {
+    const decoded = decodeProject(encodeProject(project));
+    expect(decoded).toEqual(project);
+    expect(decoded.sounds?.sounds[9].data[1]).toBeInstanceOf(Float32Array);
+  });
+
+  it('encodes only the scope it is given', () => {
+    const decoded = decodeProject(encodeProject({ sequences: project.sequences }));
+    expect(decoded.sequences).toEqual(project.sequences);
+    expect(decoded.sounds).toBeUndefined();
+  });
+
+  it('migrates version 1 sounds to the default polyphony', () => {
+    const v1 = rewriteManifest(encodeProject(project), (manifest) => {
+      manifest.version = 1;
+      delete (manifest.sounds as Record<string, unknown>).polyphony;
+    });
+    const decoded = decodeProject(v1);
+    expect(decoded.sounds?.polyphony).toBe(DEFAULT_POLYPHONY);
+    expect(decoded.sounds?.sounds[3].data).toEqual(project.sounds?.sounds[3].data);
+  });
+
+  it('keeps a polyphony already in a version 1 file', () => {
+    const v1 = rewriteManifest(encodeProject(project), (manifest) => {
+      manifest.version = 1;
+    });
+    expect(decodeProject(v1).sounds?.polyphony).toBe(12);
+  });
+
+  it('rejects files that are not projects, truncated or too new', () => {
+    expect(() => decodeProject(new ArrayBuffer(4))).toThrow('Not an SP-1200 project file');
+    const encoded = encodeProject(project);
+    expect(() => decodeProject(encoded.slice(0, encoded.byteLength - 4))).toThrow('missing PCM');
+    const newer = rewriteManifest(encoded, (manifest) => {
+      manifest.version = PROJECT_VERSION + 1;
+    });
+    expect(() => decodeProject(newer)).toThrow('newer than this app supports');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * SP-1200 project file
+ * A single binary container: a JSON manifest followed by the sample PCM.
+ *
+ *   0  "SP12"            magic
+ *   4  uint32 LE         manifest length in bytes
+ *   8  manifest          UTF-8 JSON, padded with spaces to a 4-byte boundary
+ *   .. PCM               float32 LE, one block per sound channel
+ *
+ * Sounds in the manifest point at their PCM by byte offset into the PCM
+ * section. Files from older schema versions are migrated on read.
+ */
+
+import { SampleEdit } from '@/lib/audio/sampleEdit';
+import { VoiceParams } from '@/lib/audio/voice';
+import { DEFAULT_POLYPHONY, VoiceAllocation } from '@/lib/audio/voices';
+import { Mix } from '@/lib/audio/mixer';
+import { Bank } from '@/lib/audio/banks';
+import { Pattern } from '@/lib/sequencer/pattern';
+import { Song } from '@/lib/sequencer/song';
+import { Quantize } from '@/lib/sequencer/timing';
+
+export const PROJECT_VERSION = 2;
+export const PROJECT_EXTENSION = '.sp12';
+
+const MAGIC = 'SP12';
+const HEADER_BYTES = 8;
+
+/**
+ * What a save or load covers: Disk 1/3 (sequences), 2/5 (sounds), or both
+ */
+export type ProjectScope = 'sequences' | 'sounds' | 'all';
+
+export interface ProjectSound {
+  name: string;
+  sampleRate: number;
+  data: Float32Array[]; // one array per channel
+  edit?: SampleEdit;
+  voice?: VoiceParams;
+  channel?: number; // channel assign, if not the pad's own channel
+  allocation?: VoiceAllocation; // mono/choke group, if not the default
+}
+
+export interface ProjectSequences {
+  patterns: Record<number, Pattern>;
+  songs: Record<number, Song>;
+  tempo: number;
+  swing: number;
+  quantize: Quantize;
+}
+
+export interface ProjectSounds {
+  sounds: Record<number, ProjectSound>; // sound index -> sound
+  sliderValues: number[];
+  mixes: Mix[];
+  currentMix: string;
+  currentBank: Bank;
+  polyphony: number;
+}
+
+export interface Project {
+  sequences?: ProjectSequences;
+  sounds?: ProjectSounds;
+}
+
+// On-disk form of a sound: PCM replaced by its location
+interface ManifestSound extends Omit<ProjectSound, 'data'> {
+  offset: number; // bytes into the PCM section
+  length: number; // frames per channel
+  channels: number;
+}
+
+interface Manifest {
+  version: number;
+  sequences?: ProjectSequences;
+  sounds?: Omit<ProjectSounds, 'sounds'> & { sounds: Record<number, ManifestSound> };
+}
+
+type RawManifest = { version: number } & Record<string, unknown>;
+
+/**
+ * Schema migrations, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {
+  // 2: the sounds carry the polyphony (Set-up 23); older sounds had the
+  // original's eight voices
+  1: (manifest) => {
+    const sounds = manifest.sounds as Partial<ProjectSounds> | undefined;
+    if (!sounds) return manifest;
+    return { ...manifest, sounds: { ...sounds, polyphony: sounds.polyphony ?? DEFAULT_POLYPHONY } };
+  },
+};
+
+/**
+ * Encode a project as a binary container
+ */
+export function encodeProject(project: Project): ArrayBuffer {
+  const blocks: Float32Array[] = [];
+  let pcmBytes = 0;
+
+  const manifest: Manifest = { version: PROJECT_VERSION, sequences: project.sequences };
+  if (project.sounds) {
+    const sounds: Record<number, ManifestSound> = {};
+    for (const [index, sound] of Object.entries(project.sounds.sounds)) {
+      const { data, ...meta } = sound;
+      sounds[Number(index)] = {
+        ...meta,
+        offset: pcmBytes,
+        length: data[0]?.length ?? 0,
+        channels: data.length,
+      };
+      data.forEach((channel) => {
+        blocks.push(channel);
+        pcmBytes += channel.length * 4;
+      });
+    }
+    manifest.sounds = { ...project.sounds, sounds };
+  }
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const manifestLength = Math.ceil(manifestBytes.length / 4) * 4;
+
+  const output = new ArrayBuffer(HEADER_BYTES + manifestLength + pcmBytes);
+  const view = new DataView(output);
+  const bytes = new Uint8Array(output);
+  for (let i = 0; i < MAGIC.length; i++) view.setUint8(i, MAGIC.charCodeAt(i));
+  view.setUint32(4, manifestLength, true);
+  bytes.set(manifestBytes, HEADER_BYTES);
+  bytes.fill(0x20, HEADER_BYTES + manifestBytes.length, HEADER_BYTES + manifestLength);
+
+  let position = HEADER_BYTES + manifestLength;
+  for (const block of blocks) {
+    for (let i = 0; i < block.length; i++, position += 4) {
+      view.setFloat32(position, block[i], true);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Decode a binary container, migrating older manifests
+ */
+export function decodeProject(buffer: ArrayBuffer): Project {
+  const view = new DataView(buffer);
+  const magic =
+    buffer.byteLength >= HEADER_BYTES
+      ? String.fromCharCode(...new Uint8Array(buffer, 0, MAGIC.length))
+      : '';
+  if (magic !== MAGIC) {
+    throw new Error('Not an SP-1200 project file');
+  }
+
+  const manifestLength = view.getUint32(4, true);
+  if (HEADER_BYTES + manifestLength > buffer.byteLength) {
+    throw new Error('Project file is truncated');
+  }
+  const json = new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, manifestLength));
+  const manifest = migrateManifest(JSON.parse(json)) as unknown as Manifest;
+
+  const project: Project = { sequences: manifest.sequences };
+  if (manifest.sounds) {
+    const pcmStart = HEADER_BYTES + manifestLength;
+    const sounds: Record<number, ProjectSound> = {};
+    for (const [index, entry] of Object.entries(manifest.sounds.sounds)) {
+      const { offset, length, channels, ...meta } = entry;
+      if (pcmStart + offset + channels * length * 4 > buffer.byteLength) {
+        throw new Error(`Project file is missing PCM for sound ${index}`);
+      }
+      const data = Array.from({ length: channels }, (_, c) => {
+        const channel = new Float32Array(length);
+        const base = pcmStart + offset + c * length * 4;
+        for (let i = 0; i < length; i++) channel[i] = view.getFloat32(base + i * 4, true);
+        return channel;
+      });
+      sounds[Number(index)] = { ...meta, data };
+    }
+    project.sounds = { ...manifest.sounds, sounds };
+  }
+
+  return project;
+}
+
+/**
+ * Bring a manifest up to the current schema version
+ */
+function migrateManifest(manifest: RawManifest): RawManifest {
+  if (typeof manifest.version !== 'number') {
+    throw new Error('Project manifest has no version');
+  }
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error(`Project version ${manifest.version} is newer than this app supports`);
+  }
+
+  let current = manifest;
+  while (current.version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) {
+      throw new Error(`No migration from project version ${current.version}`);
+    }
+    current = { ...migrate(current), version: current.version + 1 };
+  }
+  return current;
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { audioEngine } from '@/lib/audio/AudioEngine';
+import { PPQN, Pattern, createPattern } from './pattern';
+import { sequencer } from './Sequencer';
+
+const START_DELAY = 0.05;
+const TICK_120 = 60 / 120 / PPQN; // seconds per tick at 120 BPM
+
+let now = 0;
+let hits: { soundIndex: number; time: number }[] = [];
+
+const pattern = (lengthBars: number, soundIndex: number, ticks: number[]): Pattern => ({
+  ...createPattern(lengthBars),
+  events: ticks.map((tick) => ({ tick, soundIndex })),
+});
+
+// Move the audio clock forward, waking the scheduler as its timer would
+function playUntil(time: number): void {
+  while (now < time) {
+    now = Math.min(time, now + 0.025);
+    vi.advanceTimersByTime(25);
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(audioEngine, 'currentTime', 'get').mockImplementation(() => now);
+  vi.spyOn(audioEngine, 'triggerSound').mockImplementation((soundIndex, time = 0) => {
+    hits.push({ soundIndex, time });
+  });
+  now = 0;
+  hits = [];
+  sequencer.setTempo(120);
+  sequencer.setCurrentPattern(0);
+});
+
+afterEach(() => {
+  sequencer.stop();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('Sequencer', () => {
+  it('plays pattern hits on the audio clock and loops', () => {
+    sequencer.setPatterns({ 0: pattern(1, 3, [0, PPQN]) });
+    sequencer.start();
+    playUntil(2.2);
+
+    expect(hits.map((h) => h.soundIndex)).toEqual([3, 3, 3]);
+    expect(hits[0].time).toBeCloseTo(START_DELAY);
+    expect(hits[1].time).toBeCloseTo(START_DELAY + PPQN * TICK_120);
+    expect(hits[2].time).toBeCloseTo(START_DELAY + 4 * PPQN * TICK_120); // next loop
+  });
+
+  it('re-anchors a tempo change at the next unscheduled tick', () => {
+    sequencer.setPatterns({ 0: pattern(1, 0, [PPQN]) });
+    sequencer.start();
+    const anchorTick = sequencer.position;
+    const anchorTime = START_DELAY + anchorTick * TICK_120;
+
+    sequencer.setTempo(60);
+    playUntil(1.2);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].time).toBeCloseTo(anchorTime + (PPQN - anchorTick) * (60 / 60 / PPQN));
+    // Hits played before the change are timestamped at the old tempo
+    expect(sequencer.getTickAt(START_DELAY + 2 * TICK_120)).toBe(2);
+  });
+
+  it('plays playlist segments back to back, applying tempo items between them', () => {
+    const onEnd = vi.fn();
+    const unsubscribe = sequencer.onEnd(onEnd);
+    sequencer.setPatterns({ 1: pattern(1, 1, [0]), 2: pattern(1, 2, [0, PPQN]) });
+    sequencer.start([
+      { type: 'segment', pattern: 1 },
+      { type: 'tempo', bpm: 60 },
+      { type: 'segment', pattern: 2 },
+    ]);
+    playUntil(7);
+    unsubscribe();
+
+    const secondSegment = START_DELAY + 4 * PPQN * TICK_120; // one bar at 120
+    expect(hits.map((h) => h.soundIndex)).toEqual([1, 2, 2]);
+    expect(hits[1].time).toBeCloseTo(secondSegment);
+    expect(hits[2].time).toBeCloseTo(secondSegment + 1); // a beat at 60
+    expect(onEnd).toHaveBeenCalledOnce();
+    expect(sequencer.isRunning).toBe(false);
+  });
+
+  it('starts mid-song from an absolute tick and reports ticks within the segment', () => {
+    const segmentTicks: number[] = [];
+    const unsubscribe = sequencer.onBeforeTick((tick) => segmentTicks.push(tick));
+    sequencer.setPatterns({ 1: pattern(1, 1, [0]), 2: pattern(1, 2, [0, 2 * PPQN]) });
+    sequencer.start(
+      [
+        { type: 'segment', pattern: 1 },
+        { type: 'segment', pattern: 2 },
+      ],
+      4 * PPQN + PPQN
+    );
+    playUntil(1.2);
+    unsubscribe();
+
+    expect(segmentTicks[0]).toBe(PPQN);
+    expect(hits.map((h) => h.soundIndex)).toEqual([2]);
+    expect(hits[0].time).toBeCloseTo(START_DELAY + PPQN * TICK_120);
+  });
+
+  it('schedules edits made before a tick on that tick', () => {
+    let patterns = { 0: pattern(1, 0, [0, PPQN]) };
+    sequencer.setPatterns(patterns);
+    const unsubscribe = sequencer.onBeforeTick((tick) => {
+      if (tick === PPQN) {
+        patterns = { 0: pattern(1, 0, [0]) };
+        sequencer.setPatterns(patterns);
+      }
+    });
+    sequencer.start();
+    playUntil(1);
+    unsubscribe();
+
+    expect(hits).toHaveLength(1);
+  });
+});
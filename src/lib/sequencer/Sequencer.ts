@@ -0,0 +1,350 @@
+/**
+ * SP-1200 Sequencer
+ * Look-ahead scheduler that places pattern and song events on the AudioContext clock.
+ * The JS timer only wakes the scheduler up; every note is started at an
+ * exact audio time through AudioEngine.triggerSound.
+ */
+
+import { audioEngine } from '@/lib/audio/AudioEngine';
+import { PPQN, Pattern, SequenceEvent, createPattern, patternLengthTicks } from './pattern';
+import { PlaylistItem } from './song';
+import { MIN_SWING, getSwingOffset } from './timing';
+import { DEFAULT_TEMPO, roundTempo } from './tempo';
+
+const LOOKAHEAD = 0.1; // seconds scheduled ahead of the audio clock
+const SCHEDULER_INTERVAL = 25; // ms between scheduler wake-ups
+const START_DELAY = 0.05; // seconds between Run and the first tick
+
+type EndListener = () => void;
+type TickListener = (tick: number, time: number) => void;
+type SegmentTickListener = (segmentTick: number, time: number) => void;
+type TempoListener = (bpm: number) => void;
+
+class Sequencer {
+  private patterns: Record<number, Pattern> = {};
+  private eventIndex: WeakMap<Pattern, Map<number, SequenceEvent[]>> = new WeakMap();
+  private tempo = DEFAULT_TEMPO;
+  private tempoBeforeAnchor = DEFAULT_TEMPO; // tempo of the ticks before the anchor
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private swing = MIN_SWING; // percent, 50 = straight
+  private swingGrid = PPQN / 4; // ticks
+  private metronomeEnabled = false;
+  private endListeners: EndListener[] = [];
+  private tickListeners: TickListener[] = [];
+  private beforeTickListeners: SegmentTickListener[] = [];
+  private tempoListeners: TempoListener[] = [];
+
+  // What is playing: a looping pattern, or a flattened song playlist
+  private currentPattern = 0;
+  private playlist: PlaylistItem[] | null = null;
+  private playlistIndex = 0;
+
+  // Timing anchor: absolute tick `anchorTick` plays at audio time `anchorTime`
+  private anchorTick = 0;
+  private anchorTime = 0;
+  private nextTick = 0;
+  private segmentStartTick = 0; // absolute tick where the playing segment began
+
+  /**
+   * Set all pattern data. Safe to call while running; edits are heard
+   * from the next scheduled tick.
+   */
+  setPatterns(patterns: Record<number, Pattern>): void {
+    this.patterns = patterns;
+  }
+
+  /**
+   * Select the pattern looped in pattern mode
+   */
+  setCurrentPattern(patternNumber: number): void {
+    this.currentPattern = patternNumber;
+  }
+
+  /**
+   * Set tempo in BPM. While running the clock is re-anchored at the next
+   * unscheduled tick: ticks already on the audio clock keep their timing
+   * and the new tempo takes over from there, mid-bar included.
+   */
+  setTempo(bpm: number): void {
+    if (this.isRunning) {
+      this.anchorTime = this.timeOfTick(this.nextTick);
+      this.anchorTick = this.nextTick;
+      this.tempoBeforeAnchor = this.tempo;
+    }
+    this.changeTempo(bpm);
+  }
+
+  getTempo(): number {
+    return this.tempo;
+  }
+
+  /**
+   * Set swing (50-75%) and the grid it applies to, in ticks
+   */
+  setSwing(swing: number, grid: number): void {
+    this.swing = swing;
+    this.swingGrid = grid;
+  }
+
+  setMetronomeEnabled(enabled: boolean): void {
+    this.metronomeEnabled = enabled;
+  }
+
+  /**
+   * Start playback from the top of the current pattern, or play a song
+   * playlist once through. Song segments follow each other gaplessly.
+   * @param startTick absolute tick to start from (e.g. a MIDI Song Position)
+   */
+  start(playlist: PlaylistItem[] | null = null, startTick = 0): void {
+    if (this.isRunning) return;
+
+    this.playlist = playlist;
+    this.playlistIndex = 0;
+    this.anchorTick = startTick;
+    this.anchorTime = audioEngine.currentTime + START_DELAY;
+    this.tempoBeforeAnchor = this.tempo;
+    this.nextTick = startTick;
+    this.segmentStartTick = 0;
+
+    if (playlist && !this.enterPlaylistSegment()) {
+      console.log('[Sequencer] Song is empty');
+      this.notifyEnd();
+      return;
+    }
+
+    // Walk whole segments up to the start position
+    while (startTick - this.segmentStartTick >= patternLengthTicks(this.playingPattern)) {
+      this.segmentStartTick += patternLengthTicks(this.playingPattern);
+      if (this.playlist) {
+        this.playlistIndex++;
+        if (!this.enterPlaylistSegment()) {
+          console.log('[Sequencer] Start position is past the end of the song');
+          this.notifyEnd();
+          return;
+        }
+      }
+    }
+
+    this.schedule();
+    this.timerId = setInterval(() => this.schedule(), SCHEDULER_INTERVAL);
+    console.log(`[Sequencer] Started ${playlist ? 'song' : 'pattern'} at ${this.tempo} BPM`);
+  }
+
+  /**
+   * Stop playback. Notes already handed to the audio clock finish playing.
+   */
+  stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+      console.log('[Sequencer] Stopped');
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.timerId !== null;
+  }
+
+  /**
+   * Absolute tick of the next tick to be scheduled
+   */
+  get position(): number {
+    return this.nextTick;
+  }
+
+  /**
+   * Follow an external clock: absolute `tick` (may be fractional) plays at
+   * audio time `time`, at `bpm` if given. Ticks already scheduled are not moved.
+   */
+  syncToClock(tick: number, time: number, bpm?: number): void {
+    this.tempoBeforeAnchor = this.tempo;
+    if (bpm !== undefined) this.changeTempo(bpm);
+    this.anchorTick = tick;
+    this.anchorTime = time;
+  }
+
+  /**
+   * Subscribe to every scheduled tick (absolute tick and its audio time),
+   * e.g. to send clock out
+   */
+  onTick(callback: TickListener): () => void {
+    this.tickListeners.push(callback);
+    return () => {
+      this.tickListeners = this.tickListeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  /**
+   * Subscribe to every tick before its events are scheduled, for pattern
+   * edits that must apply to that tick (e.g. erasing hits). Gets the tick
+   * within the playing segment rather than the absolute tick.
+   */
+  onBeforeTick(callback: SegmentTickListener): () => void {
+    this.beforeTickListeners.push(callback);
+    return () => {
+      this.beforeTickListeners = this.beforeTickListeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  /**
+   * Subscribe to tempo changes (to 0.1 BPM), including those made by song
+   * tempo steps and external clocks
+   */
+  onTempo(callback: TempoListener): () => void {
+    this.tempoListeners.push(callback);
+    return () => {
+      this.tempoListeners = this.tempoListeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  /**
+   * Subscribe to the end of song playback
+   */
+  onEnd(callback: EndListener): () => void {
+    this.endListeners.push(callback);
+    return () => {
+      this.endListeners = this.endListeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  /**
+   * Get the pattern tick (wrapped to pattern length) playing at an audio time,
+   * rounded to the nearest tick. Used to timestamp recorded hits.
+   */
+  getTickAt(time: number): number {
+    const length = patternLengthTicks(this.playingPattern);
+    // Hits before a tempo change were played at the old tempo
+    const tempo = time < this.anchorTime ? this.tempoBeforeAnchor : this.tempo;
+    const absolute = Math.round(this.anchorTick + ((time - this.anchorTime) * tempo * PPQN) / 60);
+    const tick = absolute - this.segmentStartTick;
+    return ((tick % length) + length) % length;
+  }
+
+  private get secondsPerTick(): number {
+    return 60 / this.tempo / PPQN;
+  }
+
+  private changeTempo(bpm: number): void {
+    const changed = roundTempo(bpm) !== roundTempo(this.tempo);
+    this.tempo = bpm;
+    if (changed) this.tempoListeners.forEach((cb) => cb(bpm));
+  }
+
+  private timeOfTick(tick: number): number {
+    return this.anchorTime + (tick - this.anchorTick) * this.secondsPerTick;
+  }
+
+  private get playingPattern(): Pattern {
+    const item = this.playlist?.[this.playlistIndex];
+    const patternNumber = item?.type === 'segment' ? item.pattern : this.currentPattern;
+    // Unrecorded segments play as silence of the default length
+    return this.patterns[patternNumber] ?? createPattern();
+  }
+
+  private getEvents(pattern: Pattern, tick: number): SequenceEvent[] | undefined {
+    let index = this.eventIndex.get(pattern);
+    if (!index) {
+      index = new Map();
+      for (const event of pattern.events) {
+        const list = index.get(event.tick) ?? [];
+        list.push(event);
+        index.set(event.tick, list);
+      }
+      this.eventIndex.set(pattern, index);
+    }
+    return index.get(tick);
+  }
+
+  /**
+   * Apply tempo items at the playlist position until a segment is reached.
+   * Returns false when the playlist is exhausted.
+   */
+  private enterPlaylistSegment(): boolean {
+    if (!this.playlist) return true;
+
+    while (this.playlistIndex < this.playlist.length) {
+      const item = this.playlist[this.playlistIndex];
+      if (item.type === 'segment') return true;
+      this.setTempo(item.bpm);
+      this.playlistIndex++;
+    }
+    return false;
+  }
+
+  /**
+   * Move to the next segment at a segment boundary.
+   * Returns false when a song has finished.
+   */
+  private advanceSegment(): boolean {
+    this.segmentStartTick = this.nextTick;
+    if (!this.playlist) return true;
+
+    this.playlistIndex++;
+    return this.enterPlaylistSegment();
+  }
+
+  private notifyEnd(): void {
+    this.endListeners.forEach((cb) => cb());
+  }
+
+  /**
+   * Schedule every tick that falls inside the look-ahead window
+   */
+  private schedule(): void {
+    const now = audioEngine.currentTime;
+    const horizon = now + LOOKAHEAD;
+
+    while (this.timeOfTick(this.nextTick) < horizon) {
+      let pattern = this.playingPattern;
+      let tick = this.nextTick - this.segmentStartTick;
+
+      if (tick >= patternLengthTicks(pattern)) {
+        if (!this.advanceSegment()) {
+          this.stop();
+          this.notifyEnd();
+          return;
+        }
+        pattern = this.playingPattern;
+        tick = 0;
+      }
+
+      const time = this.timeOfTick(this.nextTick);
+
+      // If the timer was throttled (background tab), late ticks are
+      // stepped over silently instead of firing all at once
+      if (time >= now) {
+        if (this.beforeTickListeners.length > 0) {
+          this.beforeTickListeners.forEach((cb) => cb(tick, time));
+          pattern = this.playingPattern; // with the listeners' edits
+        }
+        this.scheduleTick(pattern, tick, time);
+        this.tickListeners.forEach((cb) => cb(this.nextTick, time));
+      }
+      this.nextTick++;
+    }
+  }
+
+  private scheduleTick(pattern: Pattern, tick: number, time: number): void {
+    // Metronome clicks on every beat, accented on the downbeat
+    if (this.metronomeEnabled && tick % PPQN === 0) {
+      audioEngine.triggerClick(time, tick % (pattern.beatsPerBar * PPQN) === 0);
+    }
+
+    const events = this.getEvents(pattern, tick);
+    if (!events) return;
+
+    // Swing delays off-beat events on the audio clock
+    const swingOffset = getSwingOffset(tick, this.swing, this.swingGrid);
+    const when = time + swingOffset * this.secondsPerTick;
+    events.forEach((event) =>
+      audioEngine.triggerSound(event.soundIndex, when, {
+        tuneOffset: event.tuneOffset,
+        level: event.level,
+        velocity: event.velocity,
+      })
+    );
+  }
+}
+
+// Singleton instance
+export const sequencer = new Sequencer();
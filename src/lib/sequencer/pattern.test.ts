@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { addEvent, createPattern, patternLengthTicks, PPQN, removeEvents, resizePattern } from './pattern';
+
+describe('patternLengthTicks', () => {
+  it('counts bars of beats at 96 PPQN', () => {
+    expect(patternLengthTicks(createPattern())).toBe(2 * 4 * PPQN);
+    expect(patternLengthTicks(createPattern(1, 3))).toBe(3 * PPQN);
+  });
+});
+
+describe('addEvent', () => {
+  it('inserts events in tick order without changing the original', () => {
+    const empty = createPattern();
+    const pattern = addEvent(addEvent(empty, { tick: 96, soundIndex: 0 }), { tick: 0, soundIndex: 1 });
+    expect(pattern.events.map((e) => e.tick)).toEqual([0, 96]);
+    expect(empty.events).toEqual([]);
+  });
+
+  it('ignores an identical hit', () => {
+    const pattern = addEvent(createPattern(), { tick: 0, soundIndex: 0, velocity: 0.5 });
+    expect(addEvent(pattern, { tick: 0, soundIndex: 0, velocity: 0.5 })).toBe(pattern);
+  });
+
+  it('replaces a hit on the same tick and sound with the latest velocity', () => {
+    const pattern = addEvent(createPattern(), { tick: 0, soundIndex: 0, velocity: 0.5 });
+    const replaced = addEvent(pattern, { tick: 0, soundIndex: 0, velocity: 1 });
+    expect(replaced.events).toEqual([{ tick: 0, soundIndex: 0, velocity: 1 }]);
+  });
+
+  it('keeps multi pitch and multi level hits of one sound apart', () => {
+    let pattern = createPattern();
+    pattern = addEvent(pattern, { tick: 0, soundIndex: 0, tuneOffset: 0 });
+    pattern = addEvent(pattern, { tick: 0, soundIndex: 0, tuneOffset: 3 });
+    pattern = addEvent(pattern, { tick: 0, soundIndex: 0, level: 0.25 });
+    pattern = addEvent(pattern, { tick: 0, soundIndex: 0, level: 0.5 });
+    expect(pattern.events).toHaveLength(4);
+  });
+});
+
+describe('removeEvents', () => {
+  it('drops the events that match', () => {
+    let pattern = addEvent(createPattern(), { tick: 0, soundIndex: 0 });
+    pattern = addEvent(pattern, { tick: 0, soundIndex: 1 });
+    expect(removeEvents(pattern, (e) => e.soundIndex === 0).events).toEqual([{ tick: 0, soundIndex: 1 }]);
+  });
+});
+
+describe('resizePattern', () => {
+  it('drops events past the new length', () => {
+    let pattern = addEvent(createPattern(2), { tick: 0, soundIndex: 0 });
+    pattern = addEvent(pattern, { tick: 4 * PPQN, soundIndex: 1 });
+    const resized = resizePattern(pattern, 1);
+    expect(resized.lengthBars).toBe(1);
+    expect(resized.events).toEqual([{ tick: 0, soundIndex: 0 }]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * SP-1200 Pattern (segment) data model
+ * Patterns are stored as tick-stamped pad events at 96 PPQN
+ */
+
+export const PPQN = 96;
+export const MAX_PATTERNS = 100;
+export const MAX_PATTERN_BARS = 99;
+
+export interface SequenceEvent {
+  tick: number;
+  soundIndex: number; // 0-31, see banks.ts
+  tuneOffset?: number; // multi pitch, semitones
+  level?: number; // multi level, 0-1
+  velocity?: number; // 0-1, absent = full
+}
+
+export interface Pattern {
+  lengthBars: number;
+  beatsPerBar: number;
+  events: SequenceEvent[];
+}
+
+export function createPattern(lengthBars = 2, beatsPerBar = 4): Pattern {
+  return { lengthBars, beatsPerBar, events: [] };
+}
+
+/**
+ * Total pattern length in ticks
+ */
+export function patternLengthTicks(pattern: Pattern): number {
+  return pattern.lengthBars * pattern.beatsPerBar * PPQN;
+}
+
+/**
+ * Return a copy of the pattern with the event inserted in tick order.
+ * A hit on the same tick, sound, pitch and level replaces the one there,
+ * so its velocity is the latest; an identical event is ignored.
+ */
+export function addEvent(pattern: Pattern, event: SequenceEvent): Pattern {
+  const index = pattern.events.findIndex(
+    (e) =>
+      e.tick === event.tick &&
+      e.soundIndex === event.soundIndex &&
+      e.tuneOffset === event.tuneOffset &&
+      e.level === event.level
+  );
+  if (index !== -1) {
+    if (pattern.events[index].velocity === event.velocity) return pattern;
+    const events = [...pattern.events];
+    events[index] = event;
+    return { ...pattern, events };
+  }
+
+  const events = [...pattern.events, event].sort((a, b) => a.tick - b.tick);
+  return { ...pattern, events };
+}
+
+/**
+ * Return a copy of the pattern without the events that match
+ */
+export function removeEvents(pattern: Pattern, match: (event: SequenceEvent) => boolean): Pattern {
+  return { ...pattern, events: pattern.events.filter((e) => !match(e)) };
+}
+
+/**
+ * Return a copy of the pattern with a new length.
+ * Events that fall outside the new length are dropped.
+ */
+export function resizePattern(pattern: Pattern, lengthBars: number): Pattern {
+  const resized = { ...pattern, lengthBars };
+  const maxTick = patternLengthTicks(resized);
+  return { ...resized, events: pattern.events.filter((e) => e.tick < maxTick) };
+}
+
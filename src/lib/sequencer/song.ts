@@ -0,0 +1,94 @@
+/**
+ * SP-1200 Song data model
+ * A song is an ordered list of steps: segments with repeat counts,
+ * tempo changes, nested sub-sequences (other songs) and an end marker.
+ */
+
+import { formatTempo } from './tempo';
+
+export const MAX_SONGS = 100;
+export const MAX_REPEATS = 99;
+
+const MAX_NESTING = 8;
+const MAX_PLAYLIST_LENGTH = 10000;
+
+export type SongStep =
+  | { type: 'segment'; pattern: number; repeats: number }
+  | { type: 'tempo'; bpm: number }
+  | { type: 'subsong'; song: number; repeats: number }
+  | { type: 'end' };
+
+export interface Song {
+  steps: SongStep[];
+}
+
+/**
+ * Flattened song: what the sequencer actually plays, in order
+ */
+export type PlaylistItem = { type: 'segment'; pattern: number } | { type: 'tempo'; bpm: number };
+
+export function createSong(): Song {
+  return { steps: [] };
+}
+
+/**
+ * Expand a song into a flat playlist, starting at `startStep`.
+ * Repeats and sub-songs are unrolled. An end marker ends the song it is in,
+ * so one inside a sub-song returns to the parent song. Sub-songs that nest
+ * too deeply or refer back to a song being expanded are skipped.
+ */
+export function flattenSong(
+  songs: Record<number, Song>,
+  songNumber: number,
+  startStep = 0
+): PlaylistItem[] {
+  const playlist: PlaylistItem[] = [];
+
+  const expand = (song: number, fromStep: number, stack: number[]): void => {
+    const steps = songs[song]?.steps ?? [];
+
+    for (let i = fromStep; i < steps.length; i++) {
+      if (playlist.length >= MAX_PLAYLIST_LENGTH) return;
+      const step = steps[i];
+
+      switch (step.type) {
+        case 'end':
+          return;
+        case 'tempo':
+          playlist.push({ type: 'tempo', bpm: step.bpm });
+          break;
+        case 'segment':
+          for (let r = 0; r < step.repeats; r++) {
+            playlist.push({ type: 'segment', pattern: step.pattern });
+          }
+          break;
+        case 'subsong':
+          if (stack.includes(step.song) || stack.length >= MAX_NESTING) break;
+          for (let r = 0; r < step.repeats; r++) {
+            expand(step.song, 0, [...stack, step.song]);
+          }
+          break;
+      }
+    }
+  };
+
+  expand(songNumber, startStep, [songNumber]);
+  return playlist;
+}
+
+/**
+ * Short LCD description of a song step, e.g. "SEG 04 X2"
+ */
+export function formatSongStep(step: SongStep | undefined): string {
+  if (!step) return 'EMPTY';
+  switch (step.type) {
+    case 'segment':
+      return `SEG ${String(step.pattern).padStart(2, '0')} X${step.repeats}`;
+    case 'subsong':
+      return `SONG ${String(step.song).padStart(2, '0')} X${step.repeats}`;
+    case 'tempo':
+      return `TEMPO ${formatTempo(step.bpm)}`;
+    case 'end':
+      return 'END';
+  }
+}
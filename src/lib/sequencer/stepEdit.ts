@@ -0,0 +1,52 @@
+/**
+ * SP-1200 step editing
+ * Step Program walks a segment with ◀/▶: the cursor stops on every step
+ * of the edit grid and on every tick that holds an event, so hits
+ * recorded off the grid can be reached too.
+ */
+
+import { formatSoundName } from '@/lib/audio/banks';
+import { PPQN, Pattern, SequenceEvent, patternLengthTicks } from './pattern';
+
+/**
+ * Cursor tick after ◀/▶: the next grid step or event in that direction.
+ * The cursor stays put at either end of the pattern.
+ */
+export function getNextStepTick(pattern: Pattern, tick: number, delta: 1 | -1, step: number): number {
+  if (delta > 0) {
+    const grid = (Math.floor(tick / step) + 1) * step;
+    const event = pattern.events.find((e) => e.tick > tick);
+    const next = Math.min(grid, event?.tick ?? grid);
+    return next < patternLengthTicks(pattern) ? next : tick;
+  }
+  const grid = (Math.ceil(tick / step) - 1) * step;
+  const event = pattern.events.filter((e) => e.tick < tick).pop();
+  const previous = Math.max(grid, event?.tick ?? grid);
+  return previous >= 0 ? previous : tick;
+}
+
+export function getEventsAt(pattern: Pattern, tick: number): SequenceEvent[] {
+  return pattern.events.filter((e) => e.tick === tick);
+}
+
+/**
+ * Position as bar.beat.tick, e.g. "02.3.48"
+ */
+export function formatStepPosition(tick: number, beatsPerBar: number): string {
+  const bar = Math.floor(tick / (beatsPerBar * PPQN)) + 1;
+  const beat = (Math.floor(tick / PPQN) % beatsPerBar) + 1;
+  const pad2 = (value: number) => String(value).padStart(2, '0');
+  return `${pad2(bar)}.${beat}.${pad2(tick % PPQN)}`;
+}
+
+/**
+ * The hits at a step: one with its velocity, several by name
+ */
+export function formatStepEvents(events: SequenceEvent[]): string {
+  if (events.length === 0) return '--';
+  if (events.length === 1) {
+    const [event] = events;
+    return `${formatSoundName(event.soundIndex)} VEL ${Math.round((event.velocity ?? 1) * 127)}`;
+  }
+  return events.map((event) => formatSoundName(event.soundIndex)).join(' ');
+}
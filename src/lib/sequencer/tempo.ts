@@ -0,0 +1,58 @@
+/**
+ * SP-1200 Tempo
+ * Tempo in BPM with 0.1 BPM resolution, and tap tempo.
+ */
+
+export const DEFAULT_TEMPO = 90;
+export const MIN_TEMPO = 30;
+export const MAX_TEMPO = 250;
+
+const TAP_WINDOW = 4; // tap intervals averaged
+const TAP_TIMEOUT = 2; // seconds without a tap that start a new count
+
+/**
+ * Round to 0.1 BPM
+ */
+export function roundTempo(bpm: number): number {
+  return Math.round(bpm * 10) / 10;
+}
+
+/**
+ * Round to 0.1 BPM within the tempo range
+ */
+export function clampTempo(bpm: number): number {
+  return roundTempo(Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, bpm)));
+}
+
+/**
+ * LCD form, e.g. "92.5"
+ */
+export function formatTempo(bpm: number): string {
+  return roundTempo(bpm).toFixed(1);
+}
+
+/**
+ * Tempo from taps: the average of the last few intervals. A pause longer
+ * than the slowest tempo starts counting again.
+ */
+export class TapTempo {
+  private taps: number[] = [];
+
+  /**
+   * Register a tap at `time` (seconds). Returns the tempo once there are
+   * two taps in a row, otherwise null.
+   */
+  tap(time: number): number | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && time - last > TAP_TIMEOUT) this.taps = [];
+    this.taps = [...this.taps, time].slice(-(TAP_WINDOW + 1));
+    if (this.taps.length < 2) return null;
+
+    const interval = (time - this.taps[0]) / (this.taps.length - 1);
+    return clampTempo(60 / interval);
+  }
+
+  reset(): void {
+    this.taps = [];
+  }
+}
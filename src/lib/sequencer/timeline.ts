@@ -0,0 +1,56 @@
+/**
+ * SP-1200 offline timeline
+ * Lays a segment or a song playlist out on a timeline in seconds, with the
+ * same timing as live playback: 96 PPQN, swing on the audio clock and
+ * tempo changes at segment boundaries. Used for rendering (bounce).
+ */
+
+import { RenderEvent } from '@/lib/audio/AudioEngine';
+import { PPQN, Pattern, createPattern, patternLengthTicks } from './pattern';
+import { PlaylistItem } from './song';
+import { getSwingOffset } from './timing';
+
+export interface Timeline {
+  events: RenderEvent[]; // in time order
+  duration: number; // seconds, up to the end of the last segment
+}
+
+/**
+ * Build the timeline of a playlist (a single segment is a one-item playlist)
+ */
+export function buildTimeline(
+  patterns: Record<number, Pattern>,
+  playlist: PlaylistItem[],
+  tempo: number,
+  swing: number,
+  swingGrid: number
+): Timeline {
+  const events: RenderEvent[] = [];
+  let time = 0;
+  let bpm = tempo;
+
+  for (const item of playlist) {
+    if (item.type === 'tempo') {
+      bpm = item.bpm;
+      continue;
+    }
+
+    // Unrecorded segments play as silence of the default length
+    const pattern = patterns[item.pattern] ?? createPattern();
+    const secondsPerTick = 60 / bpm / PPQN;
+    for (const event of pattern.events) {
+      const tick = event.tick + getSwingOffset(event.tick, swing, swingGrid);
+      events.push({
+        time: time + tick * secondsPerTick,
+        soundIndex: event.soundIndex,
+        tuneOffset: event.tuneOffset,
+        level: event.level,
+        velocity: event.velocity,
+      });
+    }
+    time += patternLengthTicks(pattern) * secondsPerTick;
+  }
+
+  events.sort((a, b) => a.time - b.time);
+  return { events, duration: time };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PPQN } from './pattern';
+import { getQuantizeTicks, getStepTicks, getSwingGrid, getSwingOffset, quantizeTick } from './timing';
+
+describe('quantizeTick', () => {
+  const length = 4 * PPQN;
+
+  it('snaps to the nearest grid step', () => {
+    expect(quantizeTick(10, '1/16', length)).toBe(0);
+    expect(quantizeTick(14, '1/16', length)).toBe(24);
+    expect(quantizeTick(40, '1/8T', length)).toBe(32);
+  });
+
+  it('wraps a hit just before the end to the start', () => {
+    expect(quantizeTick(length - 5, '1/16', length)).toBe(0);
+  });
+
+  it('leaves ticks alone when off', () => {
+    expect(quantizeTick(37, 'off', length)).toBe(37);
+  });
+});
+
+describe('grids', () => {
+  it('uses 1/16 to swing and step when quantize is off or a triplet', () => {
+    expect(getSwingGrid('1/8')).toBe(getQuantizeTicks('1/8'));
+    expect(getSwingGrid('1/16T')).toBe(getQuantizeTicks('1/16'));
+    expect(getSwingGrid('off')).toBe(getQuantizeTicks('1/16'));
+    expect(getStepTicks('1/32T')).toBe(getQuantizeTicks('1/32T'));
+    expect(getStepTicks('off')).toBe(getQuantizeTicks('1/16'));
+  });
+});
+
+describe('getSwingOffset', () => {
+  const grid = PPQN / 4;
+
+  it('is zero at 50%', () => {
+    expect(getSwingOffset(grid, 50, grid)).toBe(0);
+  });
+
+  it('moves the second step of each pair to the swing point', () => {
+    // 75% of a 48-tick pair: the off-beat lands on tick 36
+    expect(getSwingOffset(grid, 75, grid)).toBe(12);
+    expect(getSwingOffset(3 * grid, 75, grid)).toBe(12);
+  });
+
+  it('leaves the on-beat in place and never moves events earlier', () => {
+    expect(getSwingOffset(0, 67, grid)).toBe(0);
+    for (let tick = 0; tick < 2 * grid; tick++) {
+      expect(getSwingOffset(tick, 67, grid)).toBeGreaterThanOrEqual(0);
+    }
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * SP-1200 timing helpers: input quantize (auto correct) and swing
+ */
+
+import { PPQN } from './pattern';
+
+export type Quantize = '1/8' | '1/8T' | '1/16' | '1/16T' | '1/32' | '1/32T' | 'off';
+
+export const QUANTIZE_VALUES: Quantize[] = ['1/8', '1/8T', '1/16', '1/16T', '1/32', '1/32T', 'off'];
+
+// Swing amounts offered by the original's Swing function
+export const SWING_VALUES = [50, 54, 58, 63, 67, 71, 75];
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+
+const QUANTIZE_TICKS: Record<Quantize, number> = {
+  '1/8': PPQN / 2,
+  '1/8T': PPQN / 3,
+  '1/16': PPQN / 4,
+  '1/16T': PPQN / 6,
+  '1/32': PPQN / 8,
+  '1/32T': PPQN / 12,
+  off: 1,
+};
+
+/**
+ * Grid size in ticks for a quantize value
+ */
+export function getQuantizeTicks(quantize: Quantize): number {
+  return QUANTIZE_TICKS[quantize];
+}
+
+export function isTriplet(quantize: Quantize): boolean {
+  return quantize.endsWith('T');
+}
+
+/**
+ * Snap a recorded tick to the quantize grid, wrapping at the pattern end
+ */
+export function quantizeTick(tick: number, quantize: Quantize, lengthTicks: number): number {
+  const grid = getQuantizeTicks(quantize);
+  return (Math.round(tick / grid) * grid) % lengthTicks;
+}
+
+/**
+ * Swing grid: the quantize division, or 1/16 when quantize is off or a triplet
+ */
+export function getSwingGrid(quantize: Quantize): number {
+  if (quantize === 'off' || isTriplet(quantize)) return getQuantizeTicks('1/16');
+  return getQuantizeTicks(quantize);
+}
+
+/**
+ * Step size for note repeat and step editing: the quantize division, or
+ * 1/16 when quantize is off
+ */
+export function getStepTicks(quantize: Quantize): number {
+  return getQuantizeTicks(quantize === 'off' ? '1/16' : quantize);
+}
+
+/**
+ * Swing offset in (fractional) ticks for an event.
+ * Each pair of grid steps is warped so the second step starts at `swing`%
+ * of the pair instead of 50%. Events never move earlier.
+ */
+export function getSwingOffset(tick: number, swing: number, grid: number): number {
+  if (swing <= MIN_SWING) return 0;
+
+  const pair = grid * 2;
+  const position = tick % pair;
+  const split = pair * (swing / 100);
+
+  const swung =
+    position < grid
+      ? (position / grid) * split
+      : split + ((position - grid) / grid) * (pair - split);
+
+  return swung - position;
+}
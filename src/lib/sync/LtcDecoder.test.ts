@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { LtcDecoder } from './LtcDecoder';
+import { ltcSignal, timecodesFrom } from './testSignals';
+
+const SAMPLE_RATE = 48000;
+const SAMPLES_PER_BIT = SAMPLE_RATE / (25 * 80); // 24
+const LEAD = 100;
+
+describe('LtcDecoder', () => {
+  const timecodes = timecodesFrom({ hours: 1, minutes: 59, seconds: 59, frames: 23 }, 3, 25);
+
+  it('decodes consecutive frames with the time each started', () => {
+    const decoder = new LtcDecoder(SAMPLE_RATE, '25');
+    const frames = decoder.process(ltcSignal(timecodes, SAMPLES_PER_BIT, { lead: LEAD }), 0);
+
+    expect(frames.map((f) => f.timecode)).toEqual(timecodes);
+    expect(frames[2].timecode).toEqual({ hours: 2, minutes: 0, seconds: 0, frames: 0 });
+    frames.forEach((frame, i) => {
+      expect(frame.time).toBeCloseTo((LEAD + i * 80 * SAMPLES_PER_BIT) / SAMPLE_RATE, 6);
+      expect(frame.dropFrame).toBe(false);
+    });
+  });
+
+  it('decodes across blocks and reads the drop frame flag', () => {
+    const decoder = new LtcDecoder(SAMPLE_RATE, '25');
+    const data = ltcSignal(timecodes, SAMPLES_PER_BIT, { lead: LEAD, dropFrame: true });
+    const frames = [];
+    for (let start = 0; start < data.length; start += 128) {
+      frames.push(...decoder.process(data.subarray(start, start + 128), 48000 + start));
+    }
+
+    expect(frames.map((f) => f.timecode)).toEqual(timecodes);
+    expect(frames.every((f) => f.dropFrame)).toBe(true);
+    expect(frames[0].time).toBeCloseTo(1 + LEAD / SAMPLE_RATE, 6);
+  });
+
+  it('follows a signal running off speed', () => {
+    const decoder = new LtcDecoder(SAMPLE_RATE, '25');
+    const slow = ltcSignal(timecodes, SAMPLES_PER_BIT + 2, { lead: LEAD }); // 8% slow
+    expect(decoder.process(slow, 0).map((f) => f.timecode)).toEqual(timecodes);
+  });
+
+  it('starts over after a dropout', () => {
+    const decoder = new LtcDecoder(SAMPLE_RATE, '25');
+    const signal = ltcSignal(timecodes.slice(0, 1), SAMPLES_PER_BIT, { lead: LEAD });
+    // The first frame cut short, then no transitions, then a whole frame
+    const data = new Float32Array(1500 + signal.length);
+    data.set(signal.subarray(0, 1000));
+    data.fill(-0.5, 1000, 1500);
+    data.set(signal, 1500);
+    expect(decoder.process(data, 0).map((f) => f.timecode)).toEqual(timecodes.slice(0, 1));
+  });
+});
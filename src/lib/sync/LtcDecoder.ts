@@ -0,0 +1,101 @@
+/**
+ * SP-1200 LTC Decoder
+ * Decodes linear timecode from audio. LTC is biphase mark coded: every
+ * bit cell starts with a transition and a 1 has another in the middle.
+ * Each 80-bit frame ends with a sync word; the bit period adapts to the
+ * signal so tape varispeed is followed.
+ */
+
+import { FrameRate, Timecode, frameRateHz } from './timecode';
+
+export interface LtcFrame {
+  timecode: Timecode;
+  dropFrame: boolean;
+  time: number; // audio time the frame started
+}
+
+const BITS_PER_FRAME = 80;
+const SYNC_WORD = [0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1]; // bits 64-79
+const HYSTERESIS = 0.05; // a transition must cross this far past zero
+const ADAPT = 0.05; // how fast the bit period follows the signal
+
+export class LtcDecoder {
+  private high = false;
+  private lastEdge = 0; // sample position of the last transition
+  private bitPeriod: number; // samples
+  private halfBit = false; // first half of a 1 seen
+  private bits: number[] = [];
+
+  constructor(
+    private sampleRate: number,
+    rate: FrameRate
+  ) {
+    this.bitPeriod = sampleRate / (frameRateHz(rate) * BITS_PER_FRAME);
+  }
+
+  /**
+   * Decode a block of samples
+   * @param startFrame sample position of data[0] on the audio clock
+   * @returns frames whose sync word ended in this block
+   */
+  process(data: Float32Array, startFrame: number): LtcFrame[] {
+    const frames: LtcFrame[] = [];
+
+    for (let i = 0; i < data.length; i++) {
+      const high = this.high ? data[i] > -HYSTERESIS : data[i] > HYSTERESIS;
+      if (high === this.high) continue;
+      this.high = high;
+
+      const position = startFrame + i;
+      const interval = position - this.lastEdge;
+      this.lastEdge = position;
+
+      if (interval > this.bitPeriod * 1.5) {
+        // Dropout or first edge: start over
+        this.halfBit = false;
+        this.bits = [];
+      } else if (interval > this.bitPeriod * 0.75) {
+        // A lone half bit before a 0 means we were misaligned; it is dropped
+        this.bitPeriod += (interval - this.bitPeriod) * ADAPT;
+        this.halfBit = false;
+        this.pushBit(0, position, frames);
+      } else if (this.halfBit) {
+        this.bitPeriod += (interval * 2 - this.bitPeriod) * ADAPT;
+        this.halfBit = false;
+        this.pushBit(1, position, frames);
+      } else {
+        this.halfBit = true;
+      }
+    }
+
+    return frames;
+  }
+
+  private pushBit(bit: number, position: number, frames: LtcFrame[]): void {
+    this.bits.push(bit);
+    if (this.bits.length > BITS_PER_FRAME) this.bits.shift();
+    if (this.bits.length < BITS_PER_FRAME) return;
+    if (!SYNC_WORD.every((value, i) => this.bits[64 + i] === value)) return;
+
+    frames.push({
+      timecode: {
+        hours: this.value(48, 4) + 10 * this.value(56, 2),
+        minutes: this.value(32, 4) + 10 * this.value(40, 3),
+        seconds: this.value(16, 4) + 10 * this.value(24, 3),
+        frames: this.value(0, 4) + 10 * this.value(8, 2),
+      },
+      dropFrame: this.bits[10] === 1,
+      time: (position - BITS_PER_FRAME * this.bitPeriod) / this.sampleRate,
+    });
+    this.bits = [];
+  }
+
+  /**
+   * BCD digit stored LSB first
+   */
+  private value(from: number, count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) value |= this.bits[from + i] << i;
+    return value;
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { PulseDetector } from './PulseDetector';
+import { clickSignal } from './testSignals';
+
+const SAMPLE_RATE = 1000;
+
+describe('PulseDetector', () => {
+  it('finds clicks above the threshold at their audio time', () => {
+    const detector = new PulseDetector(SAMPLE_RATE, 0.3);
+    expect(detector.process(clickSignal(1000, [100, 600]), 2000)).toEqual([2.1, 2.6]);
+  });
+
+  it('ignores clicks below the threshold, of either polarity', () => {
+    const detector = new PulseDetector(SAMPLE_RATE, 0.5);
+    expect(detector.process(clickSignal(100, [10], 0.4), 0)).toEqual([]);
+    expect(detector.process(clickSignal(100, [10], -0.6), 100)).toEqual([0.11]);
+  });
+
+  it('counts a ringing click once', () => {
+    const detector = new PulseDetector(SAMPLE_RATE, 0.3);
+    // Rings for 10 ms, inside the hold-off; the next click is 50 ms later
+    const data = clickSignal(200, [10, 12, 14, 16, 18, 20, 60]);
+    expect(detector.process(data, 0)).toEqual([0.01, 0.06]);
+  });
+
+  it('waits for the signal to fall below half the threshold to re-arm', () => {
+    const detector = new PulseDetector(SAMPLE_RATE, 0.4);
+    const data = new Float32Array(200).fill(0.25); // above half the threshold
+    data[10] = 0.8;
+    data[100] = 0.8;
+    expect(detector.process(data, 0)).toEqual([0.01]);
+  });
+
+  it('follows clicks across blocks', () => {
+    const detector = new PulseDetector(SAMPLE_RATE, 0.3);
+    const data = clickSignal(400, [150, 350]);
+    const pulses = [0, 100, 200, 300].flatMap((start) =>
+      detector.process(data.subarray(start, start + 100), start)
+    );
+    expect(pulses).toEqual([0.15, 0.35]);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * SP-1200 Pulse Detector
+ * Finds clicks in an audio signal: a pulse is a rise above the threshold,
+ * and the detector re-arms once the signal falls back below half of it.
+ * A short hold-off keeps ringing clicks from counting twice.
+ */
+
+const HOLD_OFF = 0.02; // seconds after a pulse where no other is detected
+
+export class PulseDetector {
+  private armed = true;
+  private lastPulse = -Infinity; // sample position
+
+  constructor(
+    private sampleRate: number,
+    private threshold = 0.3
+  ) {}
+
+  setThreshold(threshold: number): void {
+    this.threshold = threshold;
+  }
+
+  /**
+   * Detect pulses in a block of samples
+   * @param startFrame sample position of data[0] on the audio clock
+   * @returns audio times of the pulses
+   */
+  process(data: Float32Array, startFrame: number): number[] {
+    const pulses: number[] = [];
+    const holdOff = HOLD_OFF * this.sampleRate;
+
+    for (let i = 0; i < data.length; i++) {
+      const level = Math.abs(data[i]);
+      if (!this.armed) {
+        if (level < this.threshold / 2) this.armed = true;
+        continue;
+      }
+      const position = startFrame + i;
+      if (level >= this.threshold && position - this.lastPulse >= holdOff) {
+        pulses.push(position / this.sampleRate);
+        this.lastPulse = position;
+        this.armed = false;
+      }
+    }
+
+    return pulses;
+  }
+}
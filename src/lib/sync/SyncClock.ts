@@ -0,0 +1,133 @@
+/**
+ * SP-1200 Sync Clock
+ * Selects the clock source the sequencer follows (Sync menu) and feeds
+ * the audio sync input to the sources that decode it.
+ */
+
+import { audioEngine } from '@/lib/audio/AudioEngine';
+import {
+  ClickClock,
+  ClockEvent,
+  ClockSource,
+  DEFAULT_SYNC_SETTINGS,
+  InternalClock,
+  LtcClock,
+  MidiClock,
+  SyncMode,
+  SyncSettings,
+} from './sources';
+
+type ClockListener = (event: ClockEvent) => void;
+
+interface SyncInputBlock {
+  startFrame: number;
+  data: Float32Array;
+}
+
+class SyncClock {
+  private sources: Record<SyncMode, ClockSource> = {
+    internal: new InternalClock(),
+    midi: new MidiClock(),
+    smpte: new LtcClock(),
+    click: new ClickClock(),
+  };
+  private mode: SyncMode = 'internal';
+  private settings: SyncSettings = DEFAULT_SYNC_SETTINGS;
+  private stream: MediaStream | null = null;
+  private streamSource: MediaStreamAudioSourceNode | null = null;
+  private readerNode: AudioWorkletNode | null = null;
+  private workletLoaded = false;
+  private listeners: ClockListener[] = [];
+
+  /**
+   * Follow a clock source. Click and SMPTE open the audio input;
+   * if that fails the clock falls back to internal and the error is thrown.
+   */
+  async select(mode: SyncMode): Promise<void> {
+    this.source.close();
+    this.closeInput();
+    this.mode = mode;
+
+    if (this.source.usesInput) {
+      try {
+        await this.openInput();
+      } catch (error) {
+        this.mode = 'internal';
+        throw error;
+      }
+    }
+    this.openSource();
+    console.log(`[SyncClock] Following ${mode}`);
+  }
+
+  getMode(): SyncMode {
+    return this.mode;
+  }
+
+  /**
+   * Replace the settings; the current source restarts with them
+   */
+  setSettings(settings: SyncSettings): void {
+    this.settings = { ...settings };
+    this.readerNode?.port.postMessage({ type: 'channel', channel: settings.inputChannel });
+    this.source.close();
+    this.openSource();
+  }
+
+  subscribe(callback: ClockListener): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((cb) => cb !== callback);
+    };
+  }
+
+  private get source(): ClockSource {
+    return this.sources[this.mode];
+  }
+
+  private openSource(): void {
+    const sampleRate = audioEngine.context?.sampleRate ?? 44100;
+    this.source.open((event) => this.emit(event), this.settings, sampleRate);
+  }
+
+  private async openInput(): Promise<void> {
+    const ctx = audioEngine.context;
+    if (!ctx) {
+      throw new Error('AudioEngine not initialized');
+    }
+
+    if (!this.workletLoaded) {
+      await ctx.audioWorklet.addModule('/worklets/sync-reader.js');
+      this.workletLoaded = true;
+    }
+
+    // Raw input: voice processing would smear clicks and timecode
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+    this.streamSource = ctx.createMediaStreamSource(this.stream);
+    this.readerNode = new AudioWorkletNode(ctx, 'sync-reader-processor', {
+      numberOfOutputs: 0,
+      processorOptions: { channel: this.settings.inputChannel },
+    });
+    this.readerNode.port.onmessage = (event: MessageEvent<SyncInputBlock>) =>
+      this.source.input?.(event.data.data, event.data.startFrame, ctx.currentTime);
+    this.streamSource.connect(this.readerNode);
+  }
+
+  private closeInput(): void {
+    this.streamSource?.disconnect();
+    this.streamSource = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.readerNode?.disconnect();
+    this.readerNode = null;
+  }
+
+  private emit(event: ClockEvent): void {
+    this.listeners.forEach((cb) => cb(event));
+  }
+}
+
+// Singleton instance
+export const syncClock = new SyncClock();
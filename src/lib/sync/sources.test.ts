@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PPQN } from '@/lib/sequencer/pattern';
+import { sequencer } from '@/lib/sequencer/Sequencer';
+import { ClickClock, ClockEvent, DEFAULT_SYNC_SETTINGS, LtcClock, SyncSettings } from './sources';
+import { clickSignal, ltcSignal, timecodesFrom } from './testSignals';
+
+describe('ClickClock', () => {
+  const SAMPLE_RATE = 1000;
+  let clock: ClickClock;
+  let events: ClockEvent[];
+
+  const open = (settings: Partial<SyncSettings> = {}) =>
+    clock.open((event) => events.push(event), { ...DEFAULT_SYNC_SETTINGS, ...settings }, SAMPLE_RATE);
+
+  beforeEach(() => {
+    clock = new ClickClock();
+    events = [];
+  });
+
+  it('starts on the first click and pulses a beat per click at the click tempo', () => {
+    open();
+    // 120 BPM: a click every 500 ms
+    clock.input(clickSignal(2000, [0, 500, 1000, 1500]), 0, 2);
+
+    expect(events).toEqual([
+      { type: 'start', tick: 0 },
+      { type: 'pulse', tick: 0, time: 0, bpm: undefined },
+      { type: 'pulse', tick: PPQN, time: 0.5, bpm: 120 },
+      { type: 'pulse', tick: 2 * PPQN, time: 1, bpm: 120 },
+      { type: 'pulse', tick: 3 * PPQN, time: 1.5, bpm: 120 },
+    ]);
+  });
+
+  it('averages the tempo over the last clicks and follows a change', () => {
+    open({ clicksPerBeat: 2 });
+    // Eighths at 100 BPM (300 ms), then at 150 BPM (200 ms)
+    const clicks = [0, 300, 600, 900, 1200, 1400, 1600, 1800, 2000];
+    clock.input(clickSignal(2100, clicks), 0, 2.1);
+
+    const pulses = events.filter((e) => e.type === 'pulse');
+    expect(pulses.map((e) => e.tick)).toEqual(clicks.map((_, i) => (i * PPQN) / 2));
+    expect(pulses[4].bpm).toBeCloseTo(100);
+    expect(pulses[6].bpm).toBeCloseTo(60 / (((1600 - 600) / 4 / 1000) * 2)); // mixed window
+    expect(pulses[8].bpm).toBeCloseTo(150);
+  });
+
+  it('stops after two seconds without a click, then starts again from the top', () => {
+    open();
+    clock.input(clickSignal(1000, [0, 500]), 0, 1);
+    clock.input(new Float32Array(1000), 1000, 2.4);
+    expect(events[events.length - 1]).toEqual({ type: 'pulse', tick: PPQN, time: 0.5, bpm: 120 });
+
+    clock.input(new Float32Array(1000), 2000, 2.6);
+    expect(events[events.length - 1]).toEqual({ type: 'stop' });
+
+    events = [];
+    clock.input(clickSignal(1000, [10]), 3000, 4);
+    expect(events).toEqual([
+      { type: 'start', tick: 0 },
+      { type: 'pulse', tick: 0, time: 3.01, bpm: undefined },
+    ]);
+  });
+});
+
+describe('LtcClock', () => {
+  const SAMPLE_RATE = 48000;
+  const SAMPLES_PER_BIT = SAMPLE_RATE / (25 * 80);
+  const FRAME = 1 / 25;
+  const LEAD = 100;
+  const TICKS_PER_SECOND = (120 / 60) * PPQN;
+  let clock: LtcClock;
+  let events: ClockEvent[];
+
+  const open = (settings: Partial<SyncSettings> = {}) =>
+    clock.open(
+      (event) => events.push(event),
+      { ...DEFAULT_SYNC_SETTINGS, frameRate: '25', ...settings },
+      SAMPLE_RATE
+    );
+  const play = (fromSeconds: number, frames: number, startFrame = 0) => {
+    const timecodes = timecodesFrom({ hours: 0, minutes: 0, seconds: fromSeconds, frames: 0 }, frames, 25);
+    const data = ltcSignal(timecodes, SAMPLES_PER_BIT, { lead: LEAD });
+    clock.input(data, startFrame, (startFrame + data.length) / SAMPLE_RATE);
+  };
+  const frameTime = (index: number, startFrame = 0) => (startFrame + LEAD) / SAMPLE_RATE + index * FRAME;
+
+  beforeEach(() => {
+    sequencer.setTempo(120);
+    clock = new LtcClock();
+    events = [];
+  });
+
+  afterEach(() => clock.close());
+
+  it('locates on the second of two contiguous frames, at the next whole tick', () => {
+    open();
+    play(1, 3);
+
+    const located = (1 + FRAME) * TICKS_PER_SECOND; // 199.68
+    expect(events[0]).toEqual({ type: 'start', tick: Math.ceil(located) });
+    expect(events[1]).toMatchObject({ type: 'pulse', time: expect.closeTo(frameTime(1), 6) });
+    expect(events[1].type === 'pulse' && events[1].tick).toBeCloseTo(located);
+    // Then each frame moves the position on by a frame's worth of ticks
+    expect(events[2].type === 'pulse' && events[2].tick).toBeCloseTo(located + FRAME * TICKS_PER_SECOND);
+    expect(events).toHaveLength(3);
+  });
+
+  it('counts from the offset and waits for timecode past it', () => {
+    open({ smpteOffset: { hours: 0, minutes: 0, seconds: 2, frames: 0 } });
+    play(1, 3);
+    expect(events).toEqual([]);
+
+    play(2, 2, 10 * SAMPLE_RATE);
+    expect(events[0]).toEqual({ type: 'start', tick: Math.ceil(FRAME * TICKS_PER_SECOND) });
+  });
+
+  it('relocates on a jump in timecode', () => {
+    open();
+    play(1, 2);
+    play(5, 1, 10 * SAMPLE_RATE);
+
+    expect(events.slice(2)).toEqual([
+      { type: 'stop' },
+      { type: 'start', tick: 5 * TICKS_PER_SECOND },
+      { type: 'pulse', tick: 5 * TICKS_PER_SECOND, time: expect.closeTo(frameTime(0, 10 * SAMPLE_RATE), 6) },
+    ]);
+  });
+
+  it('stops when the timecode drops out', () => {
+    open();
+    play(1, 2);
+    clock.input(new Float32Array(128), SAMPLE_RATE, 1);
+    expect(events[events.length - 1]).toEqual({ type: 'stop' });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Clock sources
+ * Everything the sequencer can follow. A source turns its input (MIDI
+ * clock, clicks on an audio input, LTC) into clock events: start from a
+ * tick, stop, and pulses that pin a tick to an audio time.
+ */
+
+import { PPQN } from '@/lib/sequencer/pattern';
+import { sequencer } from '@/lib/sequencer/Sequencer';
+import { midiController } from '@/lib/midi/MidiController';
+import { CLOCKS_PER_BEAT, CLOCKS_PER_QUARTER } from '@/lib/midi/messages';
+import { LtcDecoder } from './LtcDecoder';
+import { PulseDetector } from './PulseDetector';
+import { FrameRate, Timecode, frameRateHz, timecodeToSeconds } from './timecode';
+
+export type SyncMode = 'internal' | 'midi' | 'smpte' | 'click';
+
+export const SYNC_MODES: SyncMode[] = ['internal', 'midi', 'smpte', 'click'];
+
+export const SYNC_LABELS: Record<SyncMode, string> = {
+  internal: 'Internal',
+  midi: 'MIDI',
+  smpte: 'SMPTE',
+  click: 'Click',
+};
+
+export type ClockEvent =
+  | { type: 'start'; tick: number } // start playback from an absolute tick
+  | { type: 'stop' }
+  | { type: 'pulse'; tick: number; time: number; bpm?: number }; // no bpm = keep the tempo
+
+export type ClockEmitter = (event: ClockEvent) => void;
+
+export interface SyncSettings {
+  inputChannel: number; // audio input channel for click and SMPTE, 0 = left
+  clicksPerBeat: number; // click in and click out
+  clickThreshold: number; // 0-1
+  clickOut: boolean; // play a click track while running
+  frameRate: FrameRate;
+  smpteOffset: Timecode; // timecode where the sequence starts
+}
+
+export const CLICKS_PER_BEAT_OPTIONS = [1, 2, 4, 8, 24]; // all divide PPQN
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  inputChannel: 0,
+  clicksPerBeat: 1,
+  clickThreshold: 0.3,
+  clickOut: false,
+  frameRate: '30',
+  smpteOffset: { hours: 0, minutes: 0, seconds: 0, frames: 0 },
+};
+
+export interface ClockSource {
+  readonly usesInput: boolean; // needs the audio sync input
+  open(emit: ClockEmitter, settings: SyncSettings, sampleRate: number): void;
+  close(): void;
+  /**
+   * A block of the sync input
+   * @param startFrame sample position of data[0] on the audio clock
+   * @param now current audio time
+   */
+  input?(data: Float32Array, startFrame: number, now: number): void;
+}
+
+/**
+ * The sequencer's own tempo: nothing to follow
+ */
+export class InternalClock implements ClockSource {
+  readonly usesInput = false;
+  open(): void {}
+  close(): void {}
+}
+
+const TICKS_PER_CLOCK = PPQN / CLOCKS_PER_QUARTER;
+
+/**
+ * MIDI clock with Start/Continue/Stop and Song Position Pointer
+ */
+export class MidiClock implements ClockSource {
+  readonly usesInput = false;
+  private position = 0; // absolute tick of the next clock
+  private running = false;
+  private unsubscribe: (() => void) | null = null;
+
+  open(emit: ClockEmitter): void {
+    this.running = false;
+    this.unsubscribe = midiController.subscribe((event) => {
+      if (event.type !== 'message') return;
+      const { message, time } = event;
+      switch (message.type) {
+        case 'songPosition':
+          if (!this.running) this.position = message.beats * CLOCKS_PER_BEAT * TICKS_PER_CLOCK;
+          break;
+        case 'start':
+          this.position = 0;
+          this.running = true;
+          emit({ type: 'start', tick: 0 });
+          break;
+        case 'continue':
+          this.running = true;
+          emit({ type: 'start', tick: this.position });
+          break;
+        case 'stop':
+          this.running = false;
+          emit({ type: 'stop' });
+          break;
+        case 'clock':
+          if (!this.running) break;
+          emit({
+            type: 'pulse',
+            tick: this.position,
+            time,
+            bpm: midiController.clockTempo ?? undefined,
+          });
+          this.position += TICKS_PER_CLOCK;
+          break;
+      }
+    });
+  }
+
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+}
+
+const TEMPO_WINDOW = 4; // click intervals averaged for the tempo
+const MAX_CLICK_GAP = 2; // seconds without a click before the sequence stops
+
+/**
+ * Click track on the audio input: the first click starts the sequence
+ * from the top, the click rate sets the tempo, and silence stops it
+ */
+export class ClickClock implements ClockSource {
+  readonly usesInput = true;
+  private emit: ClockEmitter = () => {};
+  private detector: PulseDetector | null = null;
+  private ticksPerClick = PPQN;
+  private clickTimes: number[] = [];
+  private count = 0;
+
+  open(emit: ClockEmitter, settings: SyncSettings, sampleRate: number): void {
+    this.emit = emit;
+    this.detector = new PulseDetector(sampleRate, settings.clickThreshold);
+    this.ticksPerClick = PPQN / settings.clicksPerBeat;
+    this.clickTimes = [];
+  }
+
+  close(): void {
+    this.detector = null;
+  }
+
+  input(data: Float32Array, startFrame: number, now: number): void {
+    if (!this.detector) return;
+
+    for (const time of this.detector.process(data, startFrame)) {
+      if (this.clickTimes.length === 0) {
+        this.count = 0;
+        this.emit({ type: 'start', tick: 0 });
+      }
+      this.clickTimes.push(time);
+      if (this.clickTimes.length > TEMPO_WINDOW + 1) this.clickTimes.shift();
+      this.emit({
+        type: 'pulse',
+        tick: this.count * this.ticksPerClick,
+        time,
+        bpm: this.tempo ?? undefined,
+      });
+      this.count++;
+    }
+
+    const lastClick = this.clickTimes[this.clickTimes.length - 1];
+    if (lastClick !== undefined && now - lastClick > MAX_CLICK_GAP) {
+      this.clickTimes = [];
+      this.emit({ type: 'stop' });
+    }
+  }
+
+  private get tempo(): number | null {
+    if (this.clickTimes.length < 2) return null;
+    const span = this.clickTimes[this.clickTimes.length - 1] - this.clickTimes[0];
+    const secondsPerClick = span / (this.clickTimes.length - 1);
+    return 60 / (secondsPerClick * (PPQN / this.ticksPerClick));
+  }
+}
+
+const LTC_DROPOUT = 0.25; // seconds without a frame before the chase stops
+
+/**
+ * LTC chase: timecode at the offset is the top of the sequence. The
+ * sequencer keeps its own tempo; every frame re-pins its position so it
+ * follows the tape, and a jump in timecode relocates.
+ */
+export class LtcClock implements ClockSource {
+  readonly usesInput = true;
+  private emit: ClockEmitter = () => {};
+  private decoder: LtcDecoder | null = null;
+  private frameRate: FrameRate = '30';
+  private offset = 0; // seconds
+  private running = false;
+  private lastSeconds: number | null = null; // position of the last frame
+  private lastFrameTime = 0;
+  private tick = 0; // absolute tick of the last frame
+
+  open(emit: ClockEmitter, settings: SyncSettings, sampleRate: number): void {
+    this.emit = emit;
+    this.frameRate = settings.frameRate;
+    this.decoder = new LtcDecoder(sampleRate, settings.frameRate);
+    this.offset = timecodeToSeconds(settings.smpteOffset, settings.frameRate);
+    this.running = false;
+    this.lastSeconds = null;
+  }
+
+  close(): void {
+    this.decoder = null;
+  }
+
+  input(data: Float32Array, startFrame: number, now: number): void {
+    if (!this.decoder) return;
+    const frameDuration = 1 / frameRateHz(this.frameRate);
+
+    for (const frame of this.decoder.process(data, startFrame)) {
+      const seconds = timecodeToSeconds(frame.timecode, this.frameRate) - this.offset;
+      const previous = this.lastSeconds;
+      this.lastSeconds = seconds;
+      this.lastFrameTime = frame.time;
+
+      // Before the offset: wait (or stop when rewound past it)
+      if (seconds < 0) {
+        this.halt();
+        continue;
+      }
+
+      const step = previous === null ? NaN : seconds - previous;
+      const contiguous = Math.abs(step - frameDuration) < frameDuration / 2;
+      const ticksPerSecond = (sequencer.getTempo() / 60) * PPQN;
+
+      if (this.running && contiguous) {
+        this.tick += step * ticksPerSecond;
+      } else if (this.running || contiguous) {
+        // Locate: two frames in a row start the chase, a jump relocates
+        this.halt();
+        this.tick = seconds * ticksPerSecond;
+        this.running = true;
+        this.emit({ type: 'start', tick: Math.ceil(this.tick) });
+      } else {
+        continue;
+      }
+      this.emit({ type: 'pulse', tick: this.tick, time: frame.time });
+    }
+
+    if (this.running && now - this.lastFrameTime > LTC_DROPOUT) {
+      this.lastSeconds = null;
+      this.halt();
+    }
+  }
+
+  private halt(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.emit({ type: 'stop' });
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Synthetic sync input for the tests: click tracks and LTC
+ */
+
+import { Timecode } from './timecode';
+
+const SYNC_WORD = [0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1];
+
+/**
+ * Single-sample clicks at sample positions
+ */
+export function clickSignal(length: number, clicks: number[], level = 0.8): Float32Array {
+  const data = new Float32Array(length);
+  clicks.forEach((position) => (data[position] = level));
+  return data;
+}
+
+// 80 bits of an LTC frame, BCD digits LSB first
+function ltcFrameBits(timecode: Timecode, dropFrame: boolean): number[] {
+  const bits = new Array<number>(80).fill(0);
+  const put = (from: number, count: number, value: number) => {
+    for (let i = 0; i < count; i++) bits[from + i] = (value >> i) & 1;
+  };
+  put(0, 4, timecode.frames % 10);
+  put(8, 2, Math.floor(timecode.frames / 10));
+  bits[10] = dropFrame ? 1 : 0;
+  put(16, 4, timecode.seconds % 10);
+  put(24, 3, Math.floor(timecode.seconds / 10));
+  put(32, 4, timecode.minutes % 10);
+  put(40, 3, Math.floor(timecode.minutes / 10));
+  put(48, 4, timecode.hours % 10);
+  put(56, 2, Math.floor(timecode.hours / 10));
+  SYNC_WORD.forEach((bit, i) => (bits[64 + i] = bit));
+  return bits;
+}
+
+/**
+ * Biphase mark coded frames after `lead` samples without a transition
+ * (so a previous signal's last level can't swallow the first), ending with
+ * the transition that closes the last frame. Frame n starts at sample
+ * lead + n * 80 * samplesPerBit.
+ */
+export function ltcSignal(
+  timecodes: Timecode[],
+  samplesPerBit: number,
+  { lead = 100, dropFrame = false } = {}
+): Float32Array {
+  const bits = timecodes.flatMap((timecode) => ltcFrameBits(timecode, dropFrame));
+  const data = new Float32Array(lead + (bits.length + 1) * samplesPerBit);
+  let level = -0.5;
+  let position = 0;
+  const hold = (length: number) => {
+    data.fill(level, position, position + length);
+    position += length;
+  };
+
+  hold(lead);
+  for (const bit of bits) {
+    level = -level;
+    if (bit) {
+      hold(samplesPerBit / 2);
+      level = -level;
+      hold(samplesPerBit / 2);
+    } else {
+      hold(samplesPerBit);
+    }
+  }
+  level = -level;
+  hold(samplesPerBit);
+  return data;
+}
+
+/**
+ * Consecutive timecodes from a start, at a frame rate without drop frame
+ */
+export function timecodesFrom(start: Timecode, count: number, framesPerSecond: number): Timecode[] {
+  const first = ((start.hours * 60 + start.minutes) * 60 + start.seconds) * framesPerSecond + start.frames;
+  return Array.from({ length: count }, (_, i) => {
+    const frame = first + i;
+    const seconds = Math.floor(frame / framesPerSecond);
+    return {
+      hours: Math.floor(seconds / 3600),
+      minutes: Math.floor(seconds / 60) % 60,
+      seconds: seconds % 60,
+      frames: frame % framesPerSecond,
+    };
+  });
+}
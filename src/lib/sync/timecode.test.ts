@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { formatTimecode, frameRateHz, parseTimecode, timecodeToSeconds } from './timecode';
+
+describe('timecodeToSeconds', () => {
+  it('counts whole frames at non-drop rates', () => {
+    expect(timecodeToSeconds({ hours: 1, minutes: 2, seconds: 3, frames: 12 }, '25')).toBe(3723.48);
+    expect(timecodeToSeconds({ hours: 0, minutes: 0, seconds: 1, frames: 6 }, '24')).toBe(1.25);
+  });
+
+  it('skips the dropped frame numbers in drop frame', () => {
+    // 00:01:00;02 is the first frame of minute 1: frame 1800 of the signal
+    expect(timecodeToSeconds({ hours: 0, minutes: 1, seconds: 0, frames: 2 }, '30df')).toBeCloseTo(
+      1800 / frameRateHz('30df')
+    );
+    // Every tenth minute keeps its frame numbers: 10 minutes is 17982 frames
+    expect(timecodeToSeconds({ hours: 0, minutes: 10, seconds: 0, frames: 0 }, '30df')).toBeCloseTo(
+      17982 / frameRateHz('30df')
+    );
+  });
+});
+
+describe('parseTimecode', () => {
+  it('reads HH:MM:SS:FF and the drop frame separator', () => {
+    expect(parseTimecode(' 1:02:03:04 ')).toEqual({ hours: 1, minutes: 2, seconds: 3, frames: 4 });
+    expect(parseTimecode('00:00:59;29')).toEqual({ hours: 0, minutes: 0, seconds: 59, frames: 29 });
+  });
+
+  it('rejects malformed and out of range values', () => {
+    expect(parseTimecode('00:00:00')).toBeNull();
+    expect(parseTimecode('00:60:00:00')).toBeNull();
+    expect(parseTimecode('00:00:00:30')).toBeNull();
+  });
+
+  it('formats what it parses', () => {
+    expect(formatTimecode(parseTimecode('1:02:03:04')!)).toBe('01:02:03:04');
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * SMPTE timecode
+ * HH:MM:SS:FF values, frame rates (including 29.97 drop frame) and
+ * conversion to seconds for chasing.
+ */
+
+export type FrameRate = '24' | '25' | '30df' | '30';
+
+export const FRAME_RATES: FrameRate[] = ['24', '25', '30df', '30'];
+
+export interface Timecode {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  frames: number;
+}
+
+/**
+ * Frames counted per timecode second (30 for drop frame too)
+ */
+export function framesPerSecond(rate: FrameRate): number {
+  return rate === '30df' ? 30 : Number(rate);
+}
+
+/**
+ * Real frames per second of the signal
+ */
+export function frameRateHz(rate: FrameRate): number {
+  return rate === '30df' ? 30000 / 1001 : Number(rate);
+}
+
+/**
+ * Position of a timecode in seconds of real time.
+ * Drop frame skips frame numbers 0 and 1 each minute except every tenth.
+ */
+export function timecodeToSeconds(timecode: Timecode, rate: FrameRate): number {
+  const { hours, minutes, seconds, frames } = timecode;
+  let frameNumber = ((hours * 60 + minutes) * 60 + seconds) * framesPerSecond(rate) + frames;
+  if (rate === '30df') {
+    const totalMinutes = hours * 60 + minutes;
+    frameNumber -= 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return frameNumber / frameRateHz(rate);
+}
+
+/**
+ * Parse "HH:MM:SS:FF" (";" before the frames is accepted for drop frame).
+ * Returns null when malformed.
+ */
+export function parseTimecode(text: string): Timecode | null {
+  const match = /^(\d{1,2}):(\d{2}):(\d{2})[:;](\d{2})$/.exec(text.trim());
+  if (!match) return null;
+  const [hours, minutes, seconds, frames] = match.slice(1).map(Number);
+  if (minutes > 59 || seconds > 59 || frames > 29) return null;
+  return { hours, minutes, seconds, frames };
+}
+
+export function formatTimecode(timecode: Timecode): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return [timecode.hours, timecode.minutes, timecode.seconds, timecode.frames].map(pad).join(':');
+}
@@ -0,0 +1,509 @@
+/**
+ * SP-1200 menu functions
+ * What each numbered item of the Set-up, Disk, Sync and Sample columns does
+ * once it is opened: act straight away, or put a prompt on the LCD and act
+ * on what is entered. Destructive functions ask Yes/No first.
+ */
+
+import type { SP1200State } from '@/store/sp1200Store';
+import { SOUND_COUNT, formatSoundName, getSoundPad } from '@/lib/audio/banks';
+import { CHANNEL_COUNT } from '@/lib/audio/mixer';
+import { VelocityResponse } from '@/lib/audio/voice';
+import { MAX_POLYPHONY } from '@/lib/audio/voices';
+import { MAX_SAMPLE_SECONDS } from '@/lib/audio/InputCapture';
+import { PROJECT_EXTENSION, ProjectScope } from '@/lib/project/projectFile';
+import { downloadBlob, pickFile } from '@/lib/project/files';
+import { CLICKS_PER_BEAT_OPTIONS, SYNC_LABELS, SyncMode } from '@/lib/sync/sources';
+import { FRAME_RATES, formatTimecode, parseTimecode } from '@/lib/sync/timecode';
+import { clampTempo, formatTempo } from '@/lib/sequencer/tempo';
+import {
+  MenuColumn,
+  MenuPrompt,
+  MenuResult,
+  choicePrompt,
+  confirmPrompt,
+  digitsPrompt,
+} from '@/lib/menu/menu';
+
+type MenuFunction = (get: () => SP1200State) => MenuResult | Promise<MenuResult>;
+
+// Set-up 14: off, then what velocity changes besides level
+const DYNAMIC_STEPS: { label: string; enabled: boolean; response: VelocityResponse }[] = [
+  { label: 'OFF', enabled: false, response: { decay: false, pitch: false } },
+  { label: 'LEVEL', enabled: true, response: { decay: false, pitch: false } },
+  { label: 'LEVEL+DECAY', enabled: true, response: { decay: true, pitch: false } },
+  { label: 'LEVEL+PITCH', enabled: true, response: { decay: false, pitch: true } },
+  { label: 'LVL+DCY+PITCH', enabled: true, response: { decay: true, pitch: true } },
+];
+
+const SOUND_NAMES = Array.from({ length: SOUND_COUNT }, (_, i) => formatSoundName(i));
+const MIDI_CHANNELS = ['OMNI', ...Array.from({ length: 16 }, (_, i) => String(i + 1))];
+const FRAME_RATE_LABELS = ['24 FPS', '25 FPS', '29.97 DROP', '30 FPS'];
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Sounds need the audio context for their buffers, sampling for the input
+const withAudio =
+  (fn: MenuFunction): MenuFunction =>
+  (get) =>
+    get().audioInitialized ? fn(get) : 'START AUDIO FIRST';
+
+const multi =
+  (type: 'pitch' | 'level'): MenuFunction =>
+  (get) => {
+    const { lastSoundIndex, enterMultiMode } = get();
+    enterMultiMode(type, lastSoundIndex);
+    return `MULTI ${type.toUpperCase()} ${formatSoundName(lastSoundIndex)}`;
+  };
+
+const save =
+  (scope: ProjectScope): MenuFunction =>
+  (get) => {
+    downloadBlob(get().saveProject(scope), `sp1200-${scope}${PROJECT_EXTENSION}`);
+    return `SAVED ${scope.toUpperCase()}`;
+  };
+
+// Loads ask for the project file; load() returns the closing message
+const fromProjectFile = async (
+  get: () => SP1200State,
+  load: (file: File) => Promise<string>
+): Promise<MenuResult> => {
+  const file = await pickFile(PROJECT_EXTENSION);
+  if (!file) return null;
+  try {
+    get().setLcdMessage(`LOADING ${file.name.substring(0, 12)}...`);
+    return await load(file);
+  } catch (error) {
+    console.error('[SP1200] Failed to load project:', error);
+    return 'DISK ERROR';
+  }
+};
+
+// Loads that replace everything in a scope
+const loadAll =
+  (scope: ProjectScope, question: string, done: string): MenuFunction =>
+  (get) =>
+    confirmPrompt(question, () =>
+      fromProjectFile(get, async (file) => {
+        await get().loadProject(file, scope);
+        return done;
+      })
+    );
+
+const catalog =
+  (kind: 'sequences' | 'sounds'): MenuFunction =>
+  (get) => {
+    const { catalog: open, closeCatalog, openCatalog } = get();
+    if (open?.kind === kind) {
+      closeCatalog();
+    } else {
+      openCatalog(kind);
+    }
+    return null;
+  };
+
+const selectSync = async (get: () => SP1200State, mode: SyncMode): Promise<MenuResult> => {
+  try {
+    await get().setSyncMode(mode);
+    return `SYNC: ${SYNC_LABELS[mode].toUpperCase()}`;
+  } catch (error) {
+    console.error('[SP1200] Failed to open sync input:', error);
+    return 'NO SYNC INPUT';
+  }
+};
+
+// Arm and Force need the input open (VU Mode)
+const capture =
+  (action: 'armSampling' | 'forceSampling'): MenuFunction =>
+  (get) => {
+    if (get().captureStatus === 'closed') return 'VU MODE FIRST';
+    get()[action]();
+    return null;
+  };
+
+// Set-up 23 Special: a list of functions of its own. Voice mode and
+// choke group apply to the last played sound.
+const SPECIAL_FUNCTIONS: { label: string; open: MenuFunction }[] = [
+  {
+    label: 'SAMPLING MODE',
+    open: (get) => {
+      const { samplingMode, setSamplingMode } = get();
+      const options = ['emulation', 'creative'] as const;
+      return choicePrompt(
+        'SAMPLING MODE',
+        options.map((option) => option.toUpperCase()),
+        options.indexOf(samplingMode),
+        (index) => {
+          setSamplingMode(options[index]);
+          return `MODE: ${options[index].toUpperCase()}`;
+        }
+      );
+    },
+  },
+  // Creative mode's bitcrusher: bits, then rate division, then wet mix
+  {
+    label: 'CRUSHER',
+    open: (get) =>
+      digitsPrompt('CRUSHER BITS', 'BITS ##', Math.round(get().bitDepth), (bitDigits) => {
+        const bits = clamp(Number(bitDigits), 4, 16);
+        get().setBitDepth(bits);
+        return digitsPrompt('CRUSHER RATE', 'DIVIDE BY ##', Math.round(get().reduction), (rateDigits) => {
+          const rate = clamp(Number(rateDigits), 1, 16);
+          get().setReduction(rate);
+          return digitsPrompt('CRUSHER MIX', 'MIX ###%', Math.round(get().mix * 100), (mixDigits) => {
+            const mix = clamp(Number(mixDigits), 0, 100);
+            get().setMix(mix / 100);
+            return `CRUSH ${bits}BIT /${rate} ${mix}%`;
+          });
+        });
+      }),
+  },
+  {
+    label: 'POLYPHONY',
+    open: (get) =>
+      digitsPrompt('POLYPHONY', 'VOICES ##', get().polyphony, (digits) => {
+        const voices = clamp(Number(digits), 1, MAX_POLYPHONY);
+        get().setPolyphony(voices);
+        return `${voices} VOICES`;
+      }),
+  },
+  {
+    label: 'MONO/POLY',
+    open: (get) => {
+      const { lastSoundIndex, voiceAllocation, setVoiceAllocation } = get();
+      const name = formatSoundName(lastSoundIndex);
+      const options = ['POLY', 'MONO'];
+      const mono = voiceAllocation[lastSoundIndex]?.mono ?? false;
+      return choicePrompt(`${name} VOICE`, options, mono ? 1 : 0, (index) => {
+        setVoiceAllocation(lastSoundIndex, { mono: index === 1 });
+        return `${name} ${options[index]}`;
+      });
+    },
+  },
+  {
+    label: 'CHOKE GROUP',
+    open: (get) => {
+      const { lastSoundIndex, voiceAllocation, setVoiceAllocation } = get();
+      const name = formatSoundName(lastSoundIndex);
+      const group = voiceAllocation[lastSoundIndex]?.chokeGroup ?? 0;
+      return digitsPrompt(`${name} CHOKE`, 'GROUP # (0=OFF)', group, (digits) => {
+        const chokeGroup = Number(digits) || null;
+        setVoiceAllocation(lastSoundIndex, { chokeGroup });
+        return chokeGroup ? `${name} GROUP ${chokeGroup}` : `${name} NO GROUP`;
+      });
+    },
+  },
+  {
+    // Order dropped files fill the pads in
+    label: 'IMPORT SORT',
+    open: (get) => {
+      const { importSort, setImportSort } = get();
+      const options = ['name', 'smart'] as const;
+      return choicePrompt(
+        'IMPORT SORT',
+        options.map((option) => option.toUpperCase()),
+        options.indexOf(importSort),
+        (index) => {
+          setImportSort(options[index]);
+          return `SORT: ${options[index].toUpperCase()}`;
+        }
+      );
+    },
+  },
+];
+
+export const MENU_FUNCTIONS: Record<MenuColumn, Record<number, MenuFunction>> = {
+  setup: {
+    11: multi('pitch'),
+    12: multi('level'),
+    13: (get) => {
+      get().exitMultiMode();
+      return 'MULTI MODE OFF';
+    },
+    14: (get) => {
+      const { dynamicButtons, velocityResponse, setDynamicButtons } = get();
+      const current = DYNAMIC_STEPS.findIndex(
+        (step) =>
+          step.enabled === dynamicButtons &&
+          (!step.enabled ||
+            (step.response.decay === velocityResponse.decay &&
+              step.response.pitch === velocityResponse.pitch))
+      );
+      return choicePrompt(
+        'DYNAMIC BUTTONS',
+        DYNAMIC_STEPS.map((step) => step.label),
+        current,
+        (index) => {
+          const step = DYNAMIC_STEPS[index];
+          setDynamicButtons(step.enabled, step.response);
+          return `DYNAMIC: ${step.label}`;
+        }
+      );
+    },
+    15: (get) => {
+      const { mixes, currentMix, deleteMix } = get();
+      if (mixes.length < 2) return 'LAST MIX';
+      return confirmPrompt(`DELETE ${currentMix}?`, () => {
+        deleteMix(currentMix);
+        return `${currentMix} DELETED`;
+      });
+    },
+    // Saved mixes, then a new one from the current channel settings
+    16: (get) => {
+      const { mixes, currentMix, selectMix, saveMix } = get();
+      const names = mixes.map((mix) => mix.name);
+      return choicePrompt('SELECT MIX', [...names, 'NEW MIX'], names.indexOf(currentMix), (index) => {
+        if (index < names.length) {
+          selectMix(names[index]);
+          return `${names[index]} SELECTED`;
+        }
+        let number = mixes.length + 1;
+        while (names.includes(`MIX ${number}`)) number++;
+        saveMix(`MIX ${number}`);
+        return `MIX ${number} SAVED`;
+      });
+    },
+    // Output channel of the last played sound
+    17: (get) => {
+      const { lastSoundIndex, channelAssign, setChannelAssign } = get();
+      const name = formatSoundName(lastSoundIndex);
+      const home = getSoundPad(lastSoundIndex);
+      const channel = channelAssign[lastSoundIndex] ?? home;
+      return digitsPrompt(`${name} CHANNEL`, 'CHANNEL #', channel + 1, (digits) => {
+        const next = clamp(Number(digits), 1, CHANNEL_COUNT) - 1;
+        setChannelAssign(lastSoundIndex, next === home ? null : next);
+        return `${name} -> CHAN ${next + 1}`;
+      });
+    },
+    18: (get) => {
+      const { tuneDecaySelect, setTuneDecaySelect } = get();
+      const options = ['tune', 'decay'] as const;
+      return choicePrompt(
+        'SLIDERS',
+        options.map((option) => option.toUpperCase()),
+        options.indexOf(tuneDecaySelect),
+        (index) => {
+          setTuneDecaySelect(options[index]);
+          return `SLIDERS: ${options[index].toUpperCase()}`;
+        }
+      );
+    },
+    // Loop/Truncate editor on the last played sound; it has its own LCD
+    19: (get) => {
+      const { loopEdit, lastSoundIndex, openLoopEdit, closeLoopEdit } = get();
+      if (loopEdit) {
+        closeLoopEdit();
+        return 'LOOP/TRUNCATE OFF';
+      }
+      return openLoopEdit(lastSoundIndex) ? null : `${formatSoundName(lastSoundIndex)} EMPTY`;
+    },
+    20: (get) => {
+      const { lastSoundIndex, loadedSamples, deleteSound } = get();
+      const name = formatSoundName(lastSoundIndex);
+      if (!(lastSoundIndex in loadedSamples)) return `${name} EMPTY`;
+      return confirmPrompt(`DELETE ${name}?`, () => {
+        deleteSound(lastSoundIndex);
+        return `${name} DELETED`;
+      });
+    },
+    // Song playback starts from this step
+    21: (get) => {
+      const { currentSong, songCursor, setFirstSongStep } = get();
+      return digitsPrompt(
+        '1ST SONG/STEP',
+        'SONG ## STEP ##',
+        `${pad2(currentSong)}${pad2(songCursor + 1)}`,
+        (digits) => {
+          const song = Number(digits.slice(0, 2));
+          const step = Math.max(1, Number(digits.slice(2)));
+          setFirstSongStep(song, step - 1);
+          return `1ST S${pad2(song)} STEP ${pad2(step)}`;
+        }
+      );
+    },
+    // Receive channel; ports and the rest are in the MIDI panel
+    22: (get) => {
+      const { midiSettings, setMidiSettings } = get();
+      const current = midiSettings.channel === null ? 0 : midiSettings.channel + 1;
+      return choicePrompt('MIDI CHANNEL', MIDI_CHANNELS, current, (index) => {
+        setMidiSettings({ channel: index === 0 ? null : index - 1 });
+        return `MIDI CHAN ${MIDI_CHANNELS[index]}`;
+      });
+    },
+    23: (get) =>
+      choicePrompt(
+        'SPECIAL',
+        SPECIAL_FUNCTIONS.map((fn) => fn.label),
+        0,
+        (index) => SPECIAL_FUNCTIONS[index].open(get)
+      ),
+  },
+
+  disk: {
+    1: save('sequences'),
+    2: save('sounds'),
+    3: loadAll('sequences', 'REPLACE SEQS?', 'SEQUENCES LOADED'),
+    // Segment number, read from the same number in the file
+    4: (get) =>
+      digitsPrompt('LOAD SEGMENT #', 'SEGMENT ##', get().currentPattern, (digits) => {
+        const number = Number(digits);
+        const label = `SEG ${pad2(number)}`;
+        const load = () =>
+          fromProjectFile(get, async (file) =>
+            (await get().loadSegmentFromProject(file, number, number))
+              ? `${label} LOADED`
+              : `${label} NOT ON DISK`
+          );
+        return get().patterns[number]?.events.length ? confirmPrompt(`REPLACE ${label}?`, load) : load();
+      }),
+    5: withAudio(loadAll('sounds', 'REPLACE SOUNDS?', 'SOUNDS LOADED')),
+    // Sound slot, read from the same slot in the file
+    6: withAudio((get) =>
+      choicePrompt('LOAD SOUND #', SOUND_NAMES, get().lastSoundIndex, (soundIndex) => {
+        const name = SOUND_NAMES[soundIndex];
+        const load = () =>
+          fromProjectFile(get, async (file) =>
+            (await get().loadSoundFromProject(file, soundIndex, soundIndex))
+              ? `${name} LOADED`
+              : `${name} NOT ON DISK`
+          );
+        return soundIndex in get().loadedSamples ? confirmPrompt(`REPLACE ${name}?`, load) : load();
+      })
+    ),
+    7: catalog('sequences'),
+    8: catalog('sounds'),
+    9: save('all'),
+    0: withAudio(loadAll('all', 'REPLACE ALL?', 'ALL LOADED')),
+  },
+
+  sync: {
+    1: (get) => selectSync(get, 'internal'),
+    2: (get) => selectSync(get, 'midi'),
+    // Frame rate, then the timecode that is tick 0 (click and SMPTE listen on the audio input)
+    3: withAudio((get) => {
+      const { syncSettings, setSyncSettings } = get();
+      return choicePrompt(
+        'SMPTE RATE',
+        FRAME_RATE_LABELS,
+        FRAME_RATES.indexOf(syncSettings.frameRate),
+        (index) => {
+          setSyncSettings({ frameRate: FRAME_RATES[index] });
+          const offset = formatTimecode(syncSettings.smpteOffset).replace(/\D/g, '');
+          return digitsPrompt('SMPTE START', '##:##:##:##', offset, (digits) => {
+            const timecode = parseTimecode(digits.replace(/(\d\d)(?=\d)/g, '$1:'));
+            if (!timecode) return 'INVALID TIME';
+            setSyncSettings({ smpteOffset: timecode });
+            return selectSync(get, 'smpte');
+          });
+        }
+      );
+    }),
+    4: withAudio((get) => {
+      const { syncSettings, setSyncSettings } = get();
+      return choicePrompt(
+        'CLICKS/BEAT',
+        CLICKS_PER_BEAT_OPTIONS.map(String),
+        CLICKS_PER_BEAT_OPTIONS.indexOf(syncSettings.clicksPerBeat),
+        (index) => {
+          setSyncSettings({ clicksPerBeat: CLICKS_PER_BEAT_OPTIONS[index] });
+          return selectSync(get, 'click');
+        }
+      );
+    }),
+  },
+
+  sample: {
+    // VU Mode: open the input and meter it on the LCD
+    1: withAudio(async (get) => {
+      const { vuMode, closeSamplingInput, openSamplingInput } = get();
+      if (vuMode) {
+        closeSamplingInput();
+        return 'VU OFF';
+      }
+      try {
+        await openSamplingInput();
+        return null;
+      } catch (error) {
+        console.error('[SP1200] Failed to open input:', error);
+        return 'NO INPUT';
+      }
+    }),
+    2: withAudio((get) =>
+      choicePrompt('ASSIGN VOICE', SOUND_NAMES, get().lastSoundIndex, (soundIndex) => {
+        get().setSampleTarget(soundIndex);
+        return `SAMPLE TO ${SOUND_NAMES[soundIndex]}`;
+      })
+    ),
+    // Input level: 100% is unity gain
+    3: withAudio((get) =>
+      digitsPrompt('INPUT LEVEL', 'LEVEL ###%', Math.round(get().inputGain * 400), (digits) => {
+        const percent = clamp(Number(digits), 0, 400);
+        get().setInputGain(percent / 400);
+        return `LEVEL ${percent}%`;
+      })
+    ),
+    4: withAudio((get) =>
+      digitsPrompt('THRESHOLD SET', 'THRESHOLD ##%', Math.round(get().sampleThreshold * 100), (digits) => {
+        const percent = clamp(Number(digits), 1, 99);
+        get().setSampleThreshold(percent / 100);
+        return `THRESHOLD ${percent}%`;
+      })
+    ),
+    // Tenths of a second, up to the longest sound of the original
+    5: withAudio((get) =>
+      digitsPrompt('SAMPLE LENGTH', 'LENGTH #.# SEC', Math.round(get().sampleLength * 10), (digits) => {
+        const tenths = clamp(Number(digits), 1, MAX_SAMPLE_SECONDS * 10);
+        get().setSampleLength(tenths / 10);
+        return `LENGTH ${(tenths / 10).toFixed(1)} SEC`;
+      })
+    ),
+    // Re-Sample: a sound's hit or the segment's mix, into a slot
+    6: withAudio((get) => {
+      const sources = ['MIX', ...SOUND_NAMES];
+      return choicePrompt('RE-SAMPLE FROM', sources, get().lastSoundIndex + 1, (sourceIndex) =>
+        choicePrompt('RE-SAMPLE TO', SOUND_NAMES, get().sampleTarget, (target) => {
+          const source = sourceIndex === 0 ? 'mix' : sourceIndex - 1;
+          const label = `${sources[sourceIndex]} -> ${SOUND_NAMES[target]}`;
+          const render = async () => {
+            try {
+              return (await get().resample(source, target)) ? label : 'NOTHING TO RENDER';
+            } catch (error) {
+              console.error('[SP1200] Failed to re-sample:', error);
+              return 'RENDER ERROR';
+            }
+          };
+          return get().loadedSamples[target]
+            ? confirmPrompt(`REPLACE ${SOUND_NAMES[target]}?`, render)
+            : render();
+        })
+      );
+    }),
+    7: withAudio(capture('armSampling')),
+    8: withAudio(capture('forceSampling')),
+  },
+};
+
+// BPM to a tenth, typed as four digits
+const TEMPO_MASK = 'BPM ###.#';
+
+/**
+ * Tempo button: the tempo, typed in or tapped
+ */
+export function tempoPrompt(get: () => SP1200State): MenuPrompt {
+  return digitsPrompt('TEMPO', TEMPO_MASK, Math.round(get().tempo * 10), (digits) => {
+    get().setTempo(Number(digits) / 10);
+    return `TEMPO ${formatTempo(get().tempo)} BPM`;
+  });
+}
+
+/**
+ * Song mode Tempo Change: tempo of the step inserted at the cursor
+ */
+export function tempoChangePrompt(get: () => SP1200State): MenuPrompt {
+  return digitsPrompt('TEMPO CHANGE', TEMPO_MASK, Math.round(get().tempo * 10), (digits) => {
+    const bpm = clampTempo(Number(digits) / 10);
+    get().insertTempoStep(bpm);
+    return `STEP ${String(get().songCursor + 1).padStart(2, '0')} TEMPO ${formatTempo(bpm)}`;
+  });
+}
@@ -0,0 +1,96 @@
+import { MockInstance, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { audioEngine } from '@/lib/audio/AudioEngine';
+import { midiController } from '@/lib/midi/MidiController';
+import { FakeMidiPort, createFakeMidiAccess } from '@/lib/midi/ports';
+import { useSP1200Store } from './sp1200Store';
+
+const initialState = useSP1200Store.getState();
+const BASE_NOTE = initialState.midiSettings.baseNote;
+
+describe('MIDI', () => {
+  let port: FakeMidiPort;
+  let triggerSound: MockInstance<typeof audioEngine.triggerSound>;
+
+  const notesSent = () =>
+    port.sent.filter(({ data }) => (data[0] & 0xf0) === 0x90).map(({ data }) => data);
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    triggerSound = vi.spyOn(audioEngine, 'triggerSound').mockImplementation(() => {});
+    useSP1200Store.setState(initialState, true);
+    port = new FakeMidiPort();
+    await useSP1200Store.getState().enableMidi(createFakeMidiAccess([port]));
+  });
+
+  afterEach(() => {
+    midiController.disable();
+    vi.restoreAllMocks();
+  });
+
+  it('opens the first port for input and output', () => {
+    expect(useSP1200Store.getState().midiSettings).toMatchObject({ inputId: port.id, outputId: port.id });
+  });
+
+  it('plays the sound of a note with its velocity', () => {
+    port.receive([0x90, BASE_NOTE + 9, 64]);
+    expect(triggerSound).toHaveBeenCalledWith(9, 0, { velocity: 64 / 127 });
+    expect(useSP1200Store.getState().lastSoundIndex).toBe(9);
+  });
+
+  it('ignores notes outside the 32 sounds or on another channel', () => {
+    port.receive([0x90, BASE_NOTE - 1, 100]);
+    port.receive([0x90, BASE_NOTE + 32, 100]);
+    useSP1200Store.getState().setMidiSettings({ channel: 2 });
+    port.receive([0x90, BASE_NOTE, 100]);
+    expect(triggerSound).not.toHaveBeenCalled();
+
+    port.receive([0x92, BASE_NOTE, 100]);
+    expect(triggerSound).toHaveBeenCalledOnce();
+  });
+
+  it('maps the next CC to the slider being learned, then moves it', () => {
+    const state = useSP1200Store.getState();
+    state.setMidiLearnSlider(3);
+    port.receive([0xb0, 74, 10]);
+    expect(useSP1200Store.getState()).toMatchObject({ ccMap: { 74: 3 }, midiLearnSlider: null });
+
+    port.receive([0xb0, 74, 127]);
+    expect(useSP1200Store.getState().sliderValues[3]).toBe(100);
+    port.receive([0xb0, 75, 0]);
+    expect(useSP1200Store.getState().sliderValues[3]).toBe(100);
+  });
+
+  it('moves a CC to a slider it is learned for again', () => {
+    const state = useSP1200Store.getState();
+    state.setMidiLearnSlider(1);
+    port.receive([0xb0, 20, 0]);
+    state.setMidiLearnSlider(1);
+    port.receive([0xb0, 21, 0]);
+    expect(useSP1200Store.getState().ccMap).toEqual({ 21: 1 });
+  });
+
+  it('echoes pad hits as notes, followed by a note off', () => {
+    useSP1200Store.getState().triggerPad(2);
+    expect(port.sent.map(({ data }) => data)).toEqual([
+      [0x90, BASE_NOTE + 2, 127],
+      [0x80, BASE_NOTE + 2, 0],
+    ]);
+  });
+
+  it('echoes the pads of a multi mode as notes of their own', () => {
+    const state = useSP1200Store.getState();
+    state.enterMultiMode('level', 12);
+    state.triggerPad(0);
+    state.triggerPad(7);
+    expect(notesSent()).toEqual([
+      [0x90, BASE_NOTE + 12, 127],
+      [0x90, BASE_NOTE + 19, 127],
+    ]);
+  });
+
+  it('sends no echo when it is turned off', () => {
+    useSP1200Store.getState().setMidiSettings({ echoNotes: false });
+    useSP1200Store.getState().triggerPad(0);
+    expect(port.sent).toEqual([]);
+  });
+});
@@ -1,43 +1,560 @@
 import { create } from 'zustand';
 import { audioEngine } from '@/lib/audio/AudioEngine';
+import { Bank, BANKS, SOUND_COUNT, formatSoundName, getSoundIndex } from '@/lib/audio/banks';
+import {
+  DEFAULT_VELOCITY_RESPONSE,
+  DEFAULT_VOICE_PARAMS,
+  MultiMode,
+  MultiModeType,
+  TriggerOptions,
+  VelocityResponse,
+  VoiceParams,
+  getMultiTriggerOptions,
+  sliderToTune,
+} from '@/lib/audio/voice';
+import { ChannelStrip, Mix, createDefaultChannels } from '@/lib/audio/mixer';
+import { DEFAULT_POLYPHONY, DEFAULT_VOICE_ALLOCATION, VoiceAllocation } from '@/lib/audio/voices';
+import { SamplingMode } from '@/lib/audio/emulation';
+import {
+  EDIT_POINTS,
+  EditPoint,
+  NUDGE_COARSE,
+  NUDGE_FINE,
+  SampleEdit,
+  clampSampleEdit,
+  createSampleEdit,
+  findZeroCrossing,
+} from '@/lib/audio/sampleEdit';
+import {
+  CaptureSource,
+  CaptureStatus,
+  MAX_SAMPLE_SECONDS,
+  inputCapture,
+} from '@/lib/audio/InputCapture';
+import { sequencer } from '@/lib/sequencer/Sequencer';
+import { midiController } from '@/lib/midi/MidiController';
+import { CLOCKS_PER_BEAT, CLOCKS_PER_QUARTER } from '@/lib/midi/messages';
+import { MidiAccess, MidiPortInfo } from '@/lib/midi/ports';
+import { syncClock } from '@/lib/sync/SyncClock';
+import {
+  DEFAULT_INPUT_MAPPING,
+  InputAction,
+  InputBinding,
+  InputMapping,
+  bindInput,
+  unbindAction,
+} from '@/lib/input/mapping';
+import { loadPreferences, savePreferences } from '@/lib/input/preferences';
+import {
+  ImportFile,
+  ImportSort,
+  ImportSummary,
+  SNIFF_BYTES,
+  sniffAudioFormat,
+  sortImportFiles,
+} from '@/lib/audio/sampleImport';
+import { DEFAULT_SYNC_SETTINGS, SyncMode, SyncSettings } from '@/lib/sync/sources';
+import {
+  MENU_DIGITS,
+  MenuColumn,
+  MenuResult,
+  MenuScreen,
+  MenuSource,
+  NO_KEY,
+  YES_KEY,
+  moveCursor,
+  typeDigit,
+} from '@/lib/menu/menu';
+import { MENU_FUNCTIONS, tempoChangePrompt, tempoPrompt } from '@/store/menuFunctions';
+import {
+  DEFAULT_MIDI_SETTINGS,
+  MidiSettings,
+  acceptsChannel,
+  ccToSliderValue,
+  noteToSound,
+  soundToNote,
+} from '@/lib/midi/mapping';
+import {
+  Project,
+  ProjectScope,
+  ProjectSequences,
+  ProjectSound,
+  decodeProject,
+  encodeProject,
+} from '@/lib/project/projectFile';
+import { BounceFile, BounceOptions, bounce } from '@/lib/audio/bounce';
+import { buildTimeline } from '@/lib/sequencer/timeline';
+import { LibraryEntry, LibraryKind, Session, soundLibrary } from '@/lib/library/SoundLibrary';
+import {
+  PPQN,
+  Pattern,
+  MAX_PATTERNS,
+  MAX_PATTERN_BARS,
+  SequenceEvent,
+  addEvent,
+  createPattern,
+  patternLengthTicks,
+  removeEvents,
+  resizePattern,
+} from '@/lib/sequencer/pattern';
+import { getNextStepTick } from '@/lib/sequencer/stepEdit';
+import { UndoHistory } from '@/lib/history/UndoHistory';
+import { MAX_SONGS, Song, SongStep, createSong, flattenSong } from '@/lib/sequencer/song';
+import { DEFAULT_TEMPO, TapTempo, clampTempo, roundTempo } from '@/lib/sequencer/tempo';
+import {
+  MAX_SWING,
+  MIN_SWING,
+  Quantize,
+  getStepTicks,
+  getSwingGrid,
+  quantizeTick,
+} from '@/lib/sequencer/timing';
 
-interface SP1200State {
+export type PerfMode = 'tuneDecay' | 'mix';
+export type ProgramMode = 'song' | 'segment';
+export type TuneDecaySelect = 'tune' | 'decay';
+export type BounceSource = 'segment' | 'song';
+
+export interface CatalogState {
+  kind: LibraryKind; // Disk 7 (sequences) / 8 (sounds)
+  query: string;
+  entries: LibraryEntry[];
+  selected: number;
+}
+
+export interface SP1200State {
   // Audio state
   audioInitialized: boolean;
   masterVolume: number;
+  metronomeVolume: number;
   bitDepth: number;
   reduction: number;
   mix: number;
+  samplingMode: SamplingMode; // emulation = 26.04 kHz/12-bit model, creative = free crusher
+
+  // Live sampling state
+  captureStatus: CaptureStatus;
+  vuMode: boolean;
+  inputLevel: number; // input peak 0-1, for the VU meter
+  inputGain: number; // Gain knob 0-1 (0.25 = unity)
+  sampleThreshold: number; // 0-1
+  sampleLength: number; // seconds
+  sampleTarget: number; // sound index the next sample goes to (Assign Voice)
+
+  // Loop/Truncate state (Set-up 19)
+  sampleEdits: Record<number, SampleEdit>; // sound index -> points
+  loopEdit: { soundIndex: number; point: EditPoint; zeroSnap: boolean } | null;
 
   // Pad state
-  currentBank: 'A' | 'B' | 'C' | 'D';
-  loadedSamples: Record<number, string>; // padIndex -> filename
+  currentBank: Bank;
+  loadedSamples: Record<number, string>; // sound index (0-31) -> filename
+  soundHashes: Record<number, string>; // sound index -> library content hash
+  importSort: ImportSort; // order dropped files fill the pads in (saved in preferences)
+
+  // MIDI state (Set-up 22, Sync)
+  midiEnabled: boolean;
+  midiInputs: MidiPortInfo[];
+  midiOutputs: MidiPortInfo[];
+  midiSettings: MidiSettings;
+  ccMap: Record<number, number>; // controller number -> slider index
+  midiLearnSlider: number | null; // slider waiting for a CC
+
+  // Sync state (clock source the sequencer follows)
+  syncMode: SyncMode;
+  syncSettings: SyncSettings;
+
+  // Keyboard/gamepad mapping (saved in preferences)
+  inputMapping: InputMapping;
+  inputLearn: InputAction | null; // action waiting for a key or button
+
+  // Library catalog (side panel / LCD), null when closed
+  catalog: CatalogState | null;
+
+  // LCD: the open menu, otherwise the last message
+  lcdMessage: string;
+  menu: MenuScreen | null;
+  keypadEntry: string; // first digit of a segment/song number
 
   // Slider values (0-100)
   sliderValues: number[];
 
+  // Performance mode: what the sliders control
+  perfMode: PerfMode;
+  tuneDecaySelect: TuneDecaySelect; // Set-up 18
+  voiceParams: Record<number, VoiceParams>; // sound index -> tune/decay
+  voiceAllocation: Record<number, VoiceAllocation>; // sound index -> mono/choke group (Set-up 23)
+  polyphony: number; // voices that play at once (Set-up 23)
+  multiMode: MultiMode | null; // Set-up 11/12, null = normal pad map
+  dynamicButtons: boolean; // Set-up 14: pads play at the velocity they are hit with
+  velocityResponse: VelocityResponse;
+  repeatHeld: boolean; // Tap/Repeat held: held pads roll at the quantize division
+  heldPads: Record<number, number>; // pad index -> velocity, while the pad is held
+  eraseHeld: boolean; // Delete/Erase held: pads erase their sound instead of playing
+
+  // Mixer state
+  channels: ChannelStrip[];
+  channelAssign: Record<number, number>; // sound index -> channel (Set-up 17)
+  mixes: Mix[];
+  currentMix: string; // name of the mix that channel edits are saved to
+
+  // Sequencer state
+  patterns: Record<number, Pattern>; // pattern number -> pattern
+  currentPattern: number;
+  isPlaying: boolean;
+  isRecording: boolean;
+  overdub: boolean; // false = arming Record clears the pattern first
+  quantize: Quantize; // input quantize (auto correct)
+  swing: number; // 50-75%
+  tempo: number; // BPM, 0.1 resolution
+  metronomeEnabled: boolean;
+  stepCursor: number | null; // Step Program: tick of the cursor, null = off
+
+  // Song state
+  programMode: ProgramMode; // Song/Segment LEDs
+  songs: Record<number, Song>; // song number -> song
+  currentSong: number;
+  songStartStep: number; // Set-up 21: step playback starts from
+  songCursor: number; // step being edited
+  lastSoundIndex: number;
+
   // Actions
   initAudio: () => Promise<void>;
   setMasterVolume: (value: number) => void;
+  setMetronomeVolume: (value: number) => void;
   setBitDepth: (value: number) => void;
   setReduction: (value: number) => void;
   setMix: (value: number) => void;
+  setSamplingMode: (mode: SamplingMode) => void;
+  openSamplingInput: (source?: CaptureSource) => Promise<void>;
+  closeSamplingInput: () => void;
+  setInputGain: (value: number) => void;
+  setSampleThreshold: (value: number) => void;
+  setSampleLength: (seconds: number) => void;
+  setSampleTarget: (soundIndex: number) => void;
+  armSampling: () => void;
+  forceSampling: () => void;
+  stopSampling: () => void;
   setSliderValue: (index: number, value: number) => void;
+  openLoopEdit: (soundIndex: number) => boolean;
+  closeLoopEdit: () => void;
+  selectEditPoint: (point: EditPoint) => void;
+  setSampleEdit: (soundIndex: number, edit: SampleEdit) => void;
+  moveEditPoint: (frame: number) => void;
+  nudgeEditPoint: (direction: 1 | -1, coarse?: boolean) => void;
+  toggleZeroSnap: () => void;
+  toggleReverse: () => void;
+  toggleLoop: () => void;
+  truncateSample: () => void;
+  cyclePerfMode: () => void;
+  setTuneDecaySelect: (select: TuneDecaySelect) => void;
+  setVoiceParams: (soundIndex: number, params: Partial<VoiceParams>) => void;
+  setVoiceAllocation: (soundIndex: number, allocation: Partial<VoiceAllocation>) => void;
+  setPolyphony: (voices: number) => void;
+  setChannel: (index: number, params: Partial<ChannelStrip>) => void;
+  setChannelAssign: (soundIndex: number, channel: number | null) => void;
+  saveMix: (name: string) => void;
+  selectMix: (name: string) => void;
+  deleteMix: (name: string) => void;
+  deleteSound: (soundIndex: number) => void;
   cycleBank: () => void;
+  selectBank: (bank: Bank) => void;
   loadSample: (padIndex: number, file: File) => Promise<void>;
-  triggerPad: (padIndex: number) => void;
+  importSamples: (files: ImportFile[], soundIndex: number) => Promise<ImportSummary>;
+  setImportSort: (sort: ImportSort) => void;
+  triggerPad: (padIndex: number, velocity?: number, when?: number) => void;
+  triggerSound: (soundIndex: number, options?: TriggerOptions, when?: number) => void;
+  enterMultiMode: (type: MultiModeType, soundIndex: number) => void;
+  exitMultiMode: () => void;
+  setDynamicButtons: (enabled: boolean, response?: VelocityResponse) => void;
+  tapPad: () => void;
+  setRepeatHeld: (held: boolean) => void;
+  holdPad: (padIndex: number, velocity?: number) => void;
+  releasePad: (padIndex: number) => void;
+  setEraseHeld: (held: boolean) => void;
+  togglePlay: () => void;
+  startPlayback: (startTick?: number) => void;
+  stopPlayback: () => void;
+  toggleRecord: () => void;
+  setOverdub: (overdub: boolean) => void;
+  selectPattern: (patternNumber: number) => void;
+  setPatternLength: (lengthBars: number) => void;
+  clearPattern: () => void;
+  setStepCursor: (tick: number | null) => void;
+  moveStepCursor: (delta: 1 | -1) => void;
+  addPatternEvent: (event: SequenceEvent) => void;
+  removePatternEvents: (from: number, to: number, soundIndex?: number) => void;
+  setPatternEventVelocity: (from: number, to: number, soundIndex: number, velocity: number) => void;
+  setQuantize: (quantize: Quantize) => void;
+  setSwing: (swing: number) => void;
+  setTempo: (bpm: number) => void;
+  pressTempo: () => void;
+  openTempoChange: () => void;
+  toggleMetronome: () => void;
+  toggleProgramMode: () => void;
+  selectSong: (songNumber: number) => void;
+  setFirstSongStep: (songNumber: number, step: number) => void;
+  setSongCursor: (step: number) => void;
+  insertSongStep: (step: SongStep) => void;
+  insertTempoStep: (bpm?: number) => void;
+  updateSongStep: (step: SongStep) => void;
+  deleteSongStep: () => void;
+  saveProject: (scope: ProjectScope) => Blob;
+  loadProject: (file: Blob, scope: ProjectScope) => Promise<void>;
+  loadSegmentFromProject: (file: Blob, fromPattern: number, toPattern: number) => Promise<boolean>;
+  loadSoundFromProject: (file: Blob, fromSound: number, toSound: number) => Promise<boolean>;
+  applyProject: (project: Project, scope: ProjectScope, tags?: string[]) => void;
+  openCatalog: (kind: LibraryKind) => Promise<void>;
+  closeCatalog: () => void;
+  searchCatalog: (query: string) => Promise<void>;
+  selectCatalogEntry: (index: number) => void;
+  assignCatalogEntry: () => Promise<boolean>;
+  setCatalogTags: (hash: string, tags: string[]) => Promise<void>;
+  addSequencesToLibrary: (name: string, tags?: string[]) => Promise<void>;
+  restoreSession: () => Promise<boolean>;
+  bounceAudio: (source: BounceSource, options: BounceOptions) => Promise<BounceFile[]>;
+  resample: (source: number | 'mix', target: number) => Promise<boolean>;
+  undo: () => void;
+  redo: () => void;
+  enableMidi: (access?: MidiAccess) => Promise<void>;
+  setMidiSettings: (settings: Partial<MidiSettings>) => void;
+  setMidiLearnSlider: (slider: number | null) => void;
+  clearSliderCc: (slider: number) => void;
+  setSyncMode: (mode: SyncMode) => Promise<void>;
+  setSyncSettings: (settings: Partial<SyncSettings>) => void;
+  setInputLearn: (action: InputAction | null) => void;
+  bindInput: (binding: InputBinding, action: InputAction) => void;
+  unbindInput: (action: InputAction) => void;
+  resetInputMapping: () => void;
+  setLcdMessage: (text: string) => void;
+  pressMenuButton: (column: MenuColumn) => void;
+  openMenuFunction: (column: MenuColumn, item: number) => void;
+  closeMenu: () => void;
+  pressKeypad: (digit: number) => void;
+  pressCursor: (delta: 1 | -1) => boolean;
+  pressEnter: () => boolean;
 }
 
+const getCurrentPattern = (state: SP1200State): Pattern =>
+  state.patterns[state.currentPattern] ?? createPattern();
+
+// Sound a pad plays: its slot in the current bank, or the multi mode sound
+const getPadSound = (state: SP1200State, padIndex: number): number =>
+  state.multiMode ? state.multiMode.soundIndex : getSoundIndex(state.currentBank, padIndex);
+
+// Copy of a per-sound record with one sound removed
+const withoutSound = <T>(record: Record<number, T>, soundIndex: number) => {
+  const next = { ...record };
+  delete next[soundIndex];
+  return next;
+};
+
+const ECHO_NOTE_LENGTH = 0.1; // seconds between an echoed note on and its note off
+
+const tapTempo = new TapTempo();
+
+const getCurrentSong = (state: SP1200State): Song =>
+  state.songs[state.currentSong] ?? createSong();
+
+const readProject = async (file: Blob): Promise<Project> => decodeProject(await file.arrayBuffer());
+
+const getProjectSequences = (state: SP1200State): ProjectSequences => ({
+  patterns: state.patterns,
+  songs: state.songs,
+  tempo: state.tempo,
+  swing: state.swing,
+  quantize: state.quantize,
+});
+
+// Add a slot's sound to the library and remember its hash
+const storeInLibrary = async (soundIndex: number, name: string, tags: string[]) => {
+  const buffer = audioEngine.getSampleBuffer(soundIndex);
+  if (!buffer) return;
+  try {
+    const data = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const entry = await soundLibrary.addSound(name, buffer.sampleRate, data, tags);
+    // The slot may have been reloaded while hashing
+    if (audioEngine.getSampleBuffer(soundIndex) !== buffer) return;
+    useSP1200Store.setState((state) => ({
+      soundHashes: { ...state.soundHashes, [soundIndex]: entry.hash },
+    }));
+  } catch (error) {
+    console.error('[SP1200] Failed to store sound in library:', error);
+  }
+};
+
+// Snapshot a loaded sound with its points, voice and channel
+const getProjectSound = (state: SP1200State, soundIndex: number): ProjectSound | null => {
+  const buffer = audioEngine.getSampleBuffer(soundIndex);
+  if (!buffer) return null;
+  return {
+    name: state.loadedSamples[soundIndex] ?? formatSoundName(soundIndex),
+    sampleRate: buffer.sampleRate,
+    data: Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c)),
+    edit: state.sampleEdits[soundIndex],
+    voice: state.voiceParams[soundIndex],
+    channel: state.channelAssign[soundIndex],
+    allocation: state.voiceAllocation[soundIndex],
+  };
+};
+
+// Store fields for a project sound put into a slot
+const getProjectSoundFields = (
+  state: SP1200State,
+  soundIndex: number,
+  sound: ProjectSound
+): Partial<SP1200State> => {
+  const sampleEdits = withoutSound(state.sampleEdits, soundIndex);
+  if (sound.edit) sampleEdits[soundIndex] = sound.edit;
+  const voiceParams = { ...state.voiceParams };
+  delete voiceParams[soundIndex];
+  if (sound.voice) voiceParams[soundIndex] = sound.voice;
+  const channelAssign = { ...state.channelAssign };
+  delete channelAssign[soundIndex];
+  if (sound.channel !== undefined) channelAssign[soundIndex] = sound.channel;
+  const voiceAllocation = withoutSound(state.voiceAllocation, soundIndex);
+  if (sound.allocation) voiceAllocation[soundIndex] = sound.allocation;
+
+  return {
+    loadedSamples: { ...state.loadedSamples, [soundIndex]: sound.name },
+    soundHashes: withoutSound(state.soundHashes, soundIndex),
+    sampleEdits,
+    voiceParams,
+    channelAssign,
+    voiceAllocation,
+    loopEdit: state.loopEdit?.soundIndex === soundIndex ? null : state.loopEdit,
+  };
+};
+
+// Put a project sound into a slot and the library
+const applyProjectSound = (soundIndex: number, sound: ProjectSound, tags: string[]) => {
+  audioEngine.setSampleBuffer(soundIndex, audioEngine.createSampleBuffer(sound.data, sound.sampleRate));
+  audioEngine.setSampleEdit(soundIndex, sound.edit ?? null);
+  audioEngine.setVoiceParams(soundIndex, sound.voice ?? DEFAULT_VOICE_PARAMS);
+  audioEngine.setChannelAssign(soundIndex, sound.channel ?? null);
+  audioEngine.setVoiceAllocation(soundIndex, sound.allocation ?? null);
+  useSP1200Store.setState((state) => getProjectSoundFields(state, soundIndex, sound));
+  storeInLibrary(soundIndex, sound.name, tags);
+};
+
+// Decode an audio file into a slot
+const loadFile = async (soundIndex: number, file: File) => {
+  await audioEngine.loadSample(soundIndex, file);
+  useSP1200Store.setState((state) => ({
+    loadedSamples: {
+      ...state.loadedSamples,
+      [soundIndex]: file.name,
+    },
+    soundHashes: withoutSound(state.soundHashes, soundIndex),
+    sampleEdits: withoutSound(state.sampleEdits, soundIndex),
+    loopEdit: state.loopEdit?.soundIndex === soundIndex ? null : state.loopEdit,
+  }));
+  storeInLibrary(soundIndex, file.name, ['file']);
+};
+
+// Put a new recording in a slot (sampling, Re-Sample) and the library;
+// the slot's previous points no longer apply
+const assignBuffer = (soundIndex: number, buffer: AudioBuffer, name: string, tags: string[]) => {
+  audioEngine.setSampleBuffer(soundIndex, buffer);
+  useSP1200Store.setState((state) => ({
+    loadedSamples: { ...state.loadedSamples, [soundIndex]: name },
+    soundHashes: withoutSound(state.soundHashes, soundIndex),
+    sampleEdits: withoutSound(state.sampleEdits, soundIndex),
+    loopEdit: state.loopEdit?.soundIndex === soundIndex ? null : state.loopEdit,
+  }));
+  storeInLibrary(soundIndex, name, tags);
+};
+
+// Put what a menu step returned on the LCD: the next prompt, or a message
+// as the menu closes. Async steps close the menu while they run.
+const showMenuResult = (source: MenuSource, result: MenuResult | Promise<MenuResult>) => {
+  if (result instanceof Promise) {
+    useSP1200Store.setState({ menu: null });
+    result.then(
+      (next) => showMenuResult(source, next),
+      (error) => {
+        console.error('[SP1200] Menu function failed:', error);
+        useSP1200Store.setState({ lcdMessage: 'ERROR' });
+      }
+    );
+    return;
+  }
+  if (result === null) {
+    useSP1200Store.setState({ menu: null });
+  } else if (typeof result === 'string') {
+    useSP1200Store.setState({ menu: null, lcdMessage: result });
+  } else {
+    useSP1200Store.setState({ menu: { type: 'prompt', source, prompt: result } });
+  }
+};
+
 export const useSP1200Store = create<SP1200State>((set, get) => ({
   // Initial state
   audioInitialized: false,
   masterVolume: 0.8,
+  metronomeVolume: 0.5,
   bitDepth: 12,
   reduction: 1,
   mix: 1,
+  samplingMode: 'creative', // the crusher as before; emulation is opt-in (Set-up 23)
+  captureStatus: 'closed',
+  vuMode: false,
+  inputLevel: 0,
+  inputGain: 0.25,
+  sampleThreshold: 0.1,
+  sampleLength: MAX_SAMPLE_SECONDS,
+  sampleTarget: 0,
+  sampleEdits: {},
+  loopEdit: null,
   currentBank: 'A',
   loadedSamples: {},
+  soundHashes: {},
+  importSort: loadPreferences().importSort,
+  midiEnabled: false,
+  midiInputs: [],
+  midiOutputs: [],
+  midiSettings: DEFAULT_MIDI_SETTINGS,
+  ccMap: {},
+  midiLearnSlider: null,
+  syncMode: 'internal',
+  syncSettings: DEFAULT_SYNC_SETTINGS,
+  inputMapping: loadPreferences().inputMapping,
+  inputLearn: null,
+  catalog: null,
+  lcdMessage: 'SP-1200 READY',
+  menu: null,
+  keypadEntry: '',
   sliderValues: [45, 52, 38, 58, 42, 50, 62, 68], // Initial slider positions (inverted from top%)
+  perfMode: 'tuneDecay',
+  tuneDecaySelect: 'tune',
+  voiceParams: {},
+  voiceAllocation: {},
+  polyphony: DEFAULT_POLYPHONY,
+  multiMode: null,
+  dynamicButtons: false,
+  velocityResponse: DEFAULT_VELOCITY_RESPONSE,
+  repeatHeld: false,
+  heldPads: {},
+  eraseHeld: false,
+  channels: createDefaultChannels(),
+  channelAssign: {},
+  mixes: [{ name: 'MIX 1', channels: createDefaultChannels() }],
+  currentMix: 'MIX 1',
+  patterns: {},
+  currentPattern: 0,
+  isPlaying: false,
+  isRecording: false,
+  overdub: true,
+  quantize: '1/16',
+  swing: MIN_SWING,
+  tempo: DEFAULT_TEMPO,
+  metronomeEnabled: false,
+  stepCursor: null,
+  programMode: 'segment',
+  songs: {},
+  currentSong: 0,
+  songStartStep: 0,
+  songCursor: 0,
+  lastSoundIndex: 0,
 
   // Actions
   initAudio: async () => {
@@ -49,10 +566,17 @@ export const useSP1200Store = create<SP1200State>((set, get) => ({
       const state = get();
       audioEngine.setState({
         masterVolume: state.masterVolume,
+        metronomeVolume: state.metronomeVolume,
         bitDepth: state.bitDepth,
         reduction: state.reduction,
         mix: state.mix,
+        samplingMode: state.samplingMode,
       });
+      audioEngine.setChannels(state.channels);
+      audioEngine.setClickOutput(state.syncSettings.clickOut);
+      // The rest of the session is restored at startup
+      await get().restoreSession();
+      await restoreSessionSounds();
     } catch (error) {
       console.error('Failed to initialize audio:', error);
       throw error;
@@ -64,6 +588,11 @@ export const useSP1200Store = create<SP1200State>((set, get) => ({
     audioEngine.setState({ masterVolume: value });
   },
 
+  setMetronomeVolume: (value: number) => {
+    set({ metronomeVolume: value });
+    audioEngine.setState({ metronomeVolume: value });
+  },
+
   setBitDepth: (value: number) => {
     set({ bitDepth: value });
     audioEngine.setState({ bitDepth: value });
@@ -79,50 +608,1433 @@ export const useSP1200Store = create<SP1200State>((set, get) => ({
     audioEngine.setState({ mix: value });
   },
 
+  setSamplingMode: (mode: SamplingMode) => {
+    set({ samplingMode: mode });
+    audioEngine.setState({ samplingMode: mode });
+  },
+
+  // VU mode: opening the input starts the meter
+  openSamplingInput: async (source: CaptureSource = 'device') => {
+    inputCapture.setGain(get().inputGain * 4);
+    await inputCapture.open(source);
+    set({ vuMode: true });
+  },
+
+  closeSamplingInput: () => {
+    inputCapture.close();
+    set({ vuMode: false, inputLevel: 0 });
+  },
+
+  setInputGain: (value: number) => {
+    set({ inputGain: value });
+    inputCapture.setGain(value * 4);
+  },
+
+  setSampleThreshold: (value: number) => {
+    set({ sampleThreshold: Math.max(0, Math.min(1, value)) });
+  },
+
+  setSampleLength: (seconds: number) => {
+    set({ sampleLength: Math.max(0.1, Math.min(MAX_SAMPLE_SECONDS, seconds)) });
+  },
+
+  setSampleTarget: (soundIndex: number) => {
+    set({ sampleTarget: soundIndex });
+  },
+
+  armSampling: () => {
+    inputCapture.arm(get().sampleThreshold, get().sampleLength);
+  },
+
+  forceSampling: () => {
+    inputCapture.force(get().sampleLength);
+  },
+
+  stopSampling: () => {
+    inputCapture.stop();
+  },
+
   setSliderValue: (index: number, value: number) => {
     const sliderValues = [...get().sliderValues];
     sliderValues[index] = value;
     set({ sliderValues });
 
-    // Map sliders to audio parameters
-    // Slider 1: Master Volume (0-100 -> 0-1)
-    // Slider 2: Bit Depth (0-100 -> 4-16)
-    // Slider 3: Reduction (0-100 -> 1-16)
-    // Slider 4: Mix (0-100 -> 0-1)
-    switch (index) {
-      case 0: // Master Volume
-        get().setMasterVolume(value / 100);
-        break;
-      case 1: // Bit Depth
-        get().setBitDepth(4 + (value / 100) * 12);
-        break;
-      case 2: // Reduction
-        get().setReduction(1 + (value / 100) * 15);
-        break;
-      case 3: // Mix
-        get().setMix(value / 100);
-        break;
+    // Loop/Truncate: sliders 1-3 position start, end and loop across the sound
+    const state = get();
+    if (state.loopEdit && index < 3) {
+      const buffer = audioEngine.getSampleBuffer(state.loopEdit.soundIndex);
+      if (!buffer) return;
+      get().selectEditPoint(['start', 'end', 'loop'][index] as EditPoint);
+      get().moveEditPoint((value / 100) * buffer.length);
+      return;
     }
+
+    // Tune/Decay mode: each slider sets its pad's sound in the active bank
+    if (state.perfMode === 'tuneDecay') {
+      const soundIndex = getSoundIndex(state.currentBank, index);
+      if (state.tuneDecaySelect === 'tune') {
+        get().setVoiceParams(soundIndex, { tune: sliderToTune(value) });
+      } else {
+        get().setVoiceParams(soundIndex, { decay: value / 100 });
+      }
+      return;
+    }
+
+    // Mix mode: each slider sets its channel level
+    get().setChannel(index, { level: value / 100 });
   },
 
-  cycleBank: () => {
-    const banks: ('A' | 'B' | 'C' | 'D')[] = ['A', 'B', 'C', 'D'];
-    const currentIndex = banks.indexOf(get().currentBank);
-    const nextIndex = (currentIndex + 1) % banks.length;
-    set({ currentBank: banks[nextIndex] });
+  // Returns false when the sound has no sample to edit
+  openLoopEdit: (soundIndex: number) => {
+    const buffer = audioEngine.getSampleBuffer(soundIndex);
+    if (!buffer) return false;
+    if (!get().sampleEdits[soundIndex]) {
+      get().setSampleEdit(soundIndex, createSampleEdit(buffer.length));
+    }
+    set({ loopEdit: { soundIndex, point: 'start', zeroSnap: false } });
+    return true;
   },
 
-  loadSample: async (padIndex: number, file: File) => {
-    await audioEngine.loadSample(padIndex, file);
+  closeLoopEdit: () => {
+    set({ loopEdit: null });
+  },
+
+  selectEditPoint: (point: EditPoint) => {
+    const { loopEdit } = get();
+    if (!loopEdit) return;
+    set({ loopEdit: { ...loopEdit, point } });
+  },
+
+  setSampleEdit: (soundIndex: number, edit: SampleEdit) => {
+    const buffer = audioEngine.getSampleBuffer(soundIndex);
+    if (!buffer) return;
+    const clamped = clampSampleEdit(edit, buffer.length);
+    set((state) => ({ sampleEdits: { ...state.sampleEdits, [soundIndex]: clamped } }));
+    audioEngine.setSampleEdit(soundIndex, clamped);
+  },
+
+  // Move the selected point, snapping to a zero crossing if enabled
+  moveEditPoint: (frame: number) => {
+    const { loopEdit, sampleEdits } = get();
+    if (!loopEdit) return;
+    const edit = sampleEdits[loopEdit.soundIndex];
+    const buffer = audioEngine.getSampleBuffer(loopEdit.soundIndex);
+    if (!edit || !buffer) return;
+
+    let target = Math.round(frame);
+    if (loopEdit.zeroSnap) {
+      const current = loopEdit.point === 'loop' ? (edit.loop ?? edit.start) : edit[loopEdit.point];
+      target = findZeroCrossing(buffer.getChannelData(0), target, target >= current ? 1 : -1);
+    }
+    get().setSampleEdit(loopEdit.soundIndex, { ...edit, [loopEdit.point]: target });
+  },
+
+  nudgeEditPoint: (direction: 1 | -1, coarse = false) => {
+    const { loopEdit, sampleEdits } = get();
+    if (!loopEdit) return;
+    const edit = sampleEdits[loopEdit.soundIndex];
+    if (!edit) return;
+    const current = loopEdit.point === 'loop' ? (edit.loop ?? edit.start) : edit[loopEdit.point];
+    get().moveEditPoint(current + direction * (coarse ? NUDGE_COARSE : NUDGE_FINE));
+  },
+
+  toggleZeroSnap: () => {
+    const { loopEdit } = get();
+    if (!loopEdit) return;
+    set({ loopEdit: { ...loopEdit, zeroSnap: !loopEdit.zeroSnap } });
+  },
+
+  toggleReverse: () => {
+    const { loopEdit, sampleEdits } = get();
+    const edit = loopEdit && sampleEdits[loopEdit.soundIndex];
+    if (!loopEdit || !edit) return;
+    get().setSampleEdit(loopEdit.soundIndex, { ...edit, reverse: !edit.reverse });
+  },
+
+  toggleLoop: () => {
+    const { loopEdit, sampleEdits } = get();
+    const edit = loopEdit && sampleEdits[loopEdit.soundIndex];
+    if (!loopEdit || !edit) return;
+    get().setSampleEdit(loopEdit.soundIndex, {
+      ...edit,
+      loop: edit.loop === null ? edit.start : null,
+    });
+  },
+
+  truncateSample: () => {
+    const { loopEdit } = get();
+    if (!loopEdit) return;
+    const edit = audioEngine.truncateSample(loopEdit.soundIndex);
+    if (!edit) return;
     set((state) => ({
-      loadedSamples: {
-        ...state.loadedSamples,
-        [padIndex]: file.name,
-      },
+      sampleEdits: { ...state.sampleEdits, [loopEdit.soundIndex]: edit },
+      soundHashes: withoutSound(state.soundHashes, loopEdit.soundIndex),
     }));
+    const name = get().loadedSamples[loopEdit.soundIndex] ?? formatSoundName(loopEdit.soundIndex);
+    storeInLibrary(loopEdit.soundIndex, name, ['truncated']);
+  },
+
+  cyclePerfMode: () => {
+    set({ perfMode: get().perfMode === 'tuneDecay' ? 'mix' : 'tuneDecay' });
+  },
+
+  setTuneDecaySelect: (select: TuneDecaySelect) => {
+    set({ tuneDecaySelect: select });
+  },
+
+  setVoiceParams: (soundIndex: number, params: Partial<VoiceParams>) => {
+    const current = get().voiceParams[soundIndex] ?? DEFAULT_VOICE_PARAMS;
+    const next = { ...current, ...params };
+    set((state) => ({ voiceParams: { ...state.voiceParams, [soundIndex]: next } }));
+    audioEngine.setVoiceParams(soundIndex, next);
+  },
+
+  // Poly with no choke group is the default, so it is not stored
+  setVoiceAllocation: (soundIndex: number, allocation: Partial<VoiceAllocation>) => {
+    const next = { ...(get().voiceAllocation[soundIndex] ?? DEFAULT_VOICE_ALLOCATION), ...allocation };
+    const isDefault = !next.mono && next.chokeGroup === null;
+    set((state) => ({
+      voiceAllocation: isDefault
+        ? withoutSound(state.voiceAllocation, soundIndex)
+        : { ...state.voiceAllocation, [soundIndex]: next },
+    }));
+    audioEngine.setVoiceAllocation(soundIndex, isDefault ? null : next);
+  },
+
+  setPolyphony: (voices: number) => {
+    set({ polyphony: voices });
+    audioEngine.setPolyphony(voices);
+  },
+
+  // Channel edits are written through to the current mix
+  setChannel: (index: number, params: Partial<ChannelStrip>) => {
+    const channels = [...get().channels];
+    channels[index] = { ...channels[index], ...params };
+    set((state) => ({
+      channels,
+      mixes: state.mixes.map((mix) =>
+        mix.name === state.currentMix ? { ...mix, channels } : mix
+      ),
+    }));
+    audioEngine.setChannels(channels);
+  },
+
+  setChannelAssign: (soundIndex: number, channel: number | null) => {
+    const channelAssign = { ...get().channelAssign };
+    if (channel === null) {
+      delete channelAssign[soundIndex];
+    } else {
+      channelAssign[soundIndex] = channel;
+    }
+    set({ channelAssign });
+    audioEngine.setChannelAssign(soundIndex, channel);
+  },
+
+  // Save the live channels under a name (overwrites an existing mix)
+  saveMix: (name: string) => {
+    const channels = get().channels.map((ch) => ({ ...ch }));
+    const others = get().mixes.filter((mix) => mix.name !== name);
+    set({ mixes: [...others, { name, channels }], currentMix: name });
+  },
+
+  selectMix: (name: string) => {
+    const mix = get().mixes.find((m) => m.name === name);
+    if (!mix) return;
+    const channels = mix.channels.map((ch) => ({ ...ch }));
+    set({ channels, currentMix: name });
+    audioEngine.setChannels(channels);
+  },
+
+  // The last remaining mix can't be deleted
+  deleteMix: (name: string) => {
+    const mixes = get().mixes.filter((mix) => mix.name !== name);
+    if (mixes.length === 0) return;
+    set({ mixes });
+    if (get().currentMix === name) {
+      get().selectMix(mixes[0].name);
+    }
+  },
+
+  // Set-up 20: empty a sound slot
+  deleteSound: (soundIndex: number) => {
+    audioEngine.clearSample(soundIndex);
+    audioEngine.setVoiceParams(soundIndex, DEFAULT_VOICE_PARAMS);
+    audioEngine.setChannelAssign(soundIndex, null);
+    audioEngine.setVoiceAllocation(soundIndex, null);
+    set((state) => ({
+      loadedSamples: withoutSound(state.loadedSamples, soundIndex),
+      soundHashes: withoutSound(state.soundHashes, soundIndex),
+      sampleEdits: withoutSound(state.sampleEdits, soundIndex),
+      voiceParams: withoutSound(state.voiceParams, soundIndex),
+      channelAssign: withoutSound(state.channelAssign, soundIndex),
+      voiceAllocation: withoutSound(state.voiceAllocation, soundIndex),
+      loopEdit: state.loopEdit?.soundIndex === soundIndex ? null : state.loopEdit,
+    }));
+  },
+
+  cycleBank: () => {
+    const currentIndex = BANKS.indexOf(get().currentBank);
+    const nextIndex = (currentIndex + 1) % BANKS.length;
+    set({ currentBank: BANKS[nextIndex] });
+  },
+
+  selectBank: (bank: Bank) => {
+    set({ currentBank: bank });
+  },
+
+  // Loads into the pad's slot in the active bank
+  loadSample: async (padIndex: number, file: File) => {
+    await loadFile(getSoundIndex(get().currentBank, padIndex), file);
+  },
+
+  // Dropped files fill consecutive slots from `soundIndex` (replacing what
+  // is there), in the import sort order. Files that aren't audio by their
+  // first bytes or don't decode are skipped without using up a slot.
+  importSamples: async (files: ImportFile[], soundIndex: number) => {
+    const summary: ImportSummary = { loaded: 0, failed: 0, tooLong: 0, noRoom: 0 };
+    let next = soundIndex;
+    for (const { path, file } of sortImportFiles(files, get().importSort)) {
+      if (next >= SOUND_COUNT) {
+        summary.noRoom++;
+        continue;
+      }
+      const header = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+      if (!sniffAudioFormat(header)) {
+        summary.failed++;
+        continue;
+      }
+      try {
+        await loadFile(next, file);
+      } catch (error) {
+        console.error(`[SP1200] Failed to import ${path}:`, error);
+        summary.failed++;
+        continue;
+      }
+      // Kept whole: Loop/Truncate can cut it down
+      if ((audioEngine.getSampleBuffer(next)?.duration ?? 0) > MAX_SAMPLE_SECONDS) summary.tooLong++;
+      summary.loaded++;
+      next++;
+    }
+    return summary;
+  },
+
+  setImportSort: (sort: ImportSort) => {
+    set({ importSort: sort });
+    savePreferences({ importSort: sort });
+  },
+
+  // In multi mode every pad plays the multi sound at its pitch or level step.
+  // Velocity (0-1) is only used with Dynamic Buttons on.
+  // `when` schedules the hit on the audio clock (note repeat); 0 plays it now
+  triggerPad: (padIndex: number, velocity = 1, when = 0) => {
+    // Delete/Erase held: in Step Program the pad's hits at the cursor go; a
+    // running segment loses them as it plays past (see the onBeforeTick subscription)
+    const { eraseHeld, stepCursor } = get();
+    if (eraseHeld) {
+      if (stepCursor !== null) {
+        get().removePatternEvents(stepCursor, stepCursor + 1, getPadSound(get(), padIndex));
+      }
+      return;
+    }
+
+    const { multiMode, currentBank, midiSettings, dynamicButtons } = get();
+    const dynamics: TriggerOptions = dynamicButtons ? { velocity } : {};
+
+    // Echo the pad out as a note; in Multi Pitch/Level the source sound's
+    // note plus the pad, so the eight pitches or levels stay apart
+    if (midiSettings.echoNotes) {
+      const noteOffset = multiMode ? multiMode.soundIndex + padIndex : getSoundIndex(currentBank, padIndex);
+      const note = soundToNote(noteOffset, midiSettings.baseNote);
+      const channel = midiSettings.channel ?? 0;
+      const noteVelocity = Math.max(1, Math.round((dynamics.velocity ?? 1) * 127));
+      midiController.send({ type: 'noteOn', channel, note, velocity: noteVelocity }, when || undefined);
+      midiController.send(
+        { type: 'noteOff', channel, note },
+        (when || audioEngine.currentTime) + ECHO_NOTE_LENGTH
+      );
+    }
+
+    if (multiMode) {
+      get().triggerSound(
+        multiMode.soundIndex,
+        { ...getMultiTriggerOptions(multiMode, padIndex), ...dynamics },
+        when
+      );
+      return;
+    }
+    get().triggerSound(getSoundIndex(currentBank, padIndex), dynamics, when);
+  },
+
+  triggerSound: (soundIndex: number, options: TriggerOptions = {}, when = 0) => {
+    audioEngine.triggerSound(soundIndex, when, options);
+    set({ lastSoundIndex: soundIndex });
+
+    // Real-time recording (segment mode): stamp the hit with the tick it plays on
+    const state = get();
+    if (state.isRecording && state.isPlaying && state.programMode === 'segment') {
+      const current = getCurrentPattern(state);
+      const rawTick = sequencer.getTickAt(when || audioEngine.currentTime);
+      const tick = quantizeTick(rawTick, state.quantize, patternLengthTicks(current));
+      const pattern = addEvent(current, { tick, soundIndex, ...options });
+      set({ patterns: { ...state.patterns, [state.currentPattern]: pattern } });
+    } else if (state.stepCursor !== null && !when) {
+      // Step Program: the hit goes in at the cursor
+      get().addPatternEvent({ tick: state.stepCursor, soundIndex, ...options });
+    }
+  },
+
+  enterMultiMode: (type: MultiModeType, soundIndex: number) => {
+    set({ multiMode: { type, soundIndex } });
+  },
+
+  exitMultiMode: () => {
+    set({ multiMode: null });
+  },
+
+  setDynamicButtons: (enabled: boolean, response = get().velocityResponse) => {
+    audioEngine.setVelocityResponse(response);
+    set({ dynamicButtons: enabled, velocityResponse: response });
+  },
+
+  // On the tempo screen Tap sets the tempo; otherwise it replays the last sound
+  tapPad: () => {
+    const { menu, audioInitialized } = get();
+    if (menu?.source === 'tempo') {
+      const bpm = tapTempo.tap(performance.now() / 1000);
+      if (bpm === null) return;
+      get().setTempo(bpm);
+      showMenuResult('tempo', tempoPrompt(get));
+      return;
+    }
+    if (audioInitialized) get().triggerSound(get().lastSoundIndex);
+  },
+
+  // Note repeat: while Tap/Repeat is held, held pads retrigger on the
+  // sequencer clock (see the onTick subscription below)
+  setRepeatHeld: (held: boolean) => {
+    set({ repeatHeld: held });
+  },
+
+  // Pads report holds and releases; holding again updates the velocity
+  holdPad: (padIndex: number, velocity = 1) => {
+    set({ heldPads: { ...get().heldPads, [padIndex]: velocity } });
+  },
+
+  releasePad: (padIndex: number) => {
+    const heldPads = { ...get().heldPads };
+    delete heldPads[padIndex];
+    set({ heldPads });
+  },
+
+  // In Step Program pressing Delete/Erase deletes the hits at the cursor:
+  // those of the held pads, or all of them
+  setEraseHeld: (held: boolean) => {
+    set({ eraseHeld: held });
+    const state = get();
+    const cursor = state.stepCursor;
+    if (!held || cursor === null) return;
+    const pads = Object.keys(state.heldPads).map(Number);
+    if (pads.length === 0) {
+      state.removePatternEvents(cursor, cursor + 1);
+    } else {
+      pads.forEach((pad) => state.removePatternEvents(cursor, cursor + 1, getPadSound(state, pad)));
+    }
+  },
+
+  togglePlay: () => {
+    if (get().isPlaying) {
+      get().stopPlayback();
+    } else {
+      get().startPlayback();
+    }
+  },
+
+  // Start from an absolute tick (MIDI Continue / Song Position), sending
+  // transport out when the internal clock is the master
+  startPlayback: (startTick = 0) => {
+    const state = get();
+    if (state.isPlaying) return;
+
+    sequencer.setCurrentPattern(state.currentPattern);
+    sequencer.setSwing(state.swing, getSwingGrid(state.quantize));
+    sequencer.setMetronomeEnabled(state.metronomeEnabled);
+    sequencer.start(
+      state.programMode === 'song'
+        ? flattenSong(state.songs, state.currentSong, state.songStartStep)
+        : null,
+      startTick
+    );
+    // An empty song ends straight away
+    if (!sequencer.isRunning) return;
+    set({ isPlaying: true, stepCursor: null });
+
+    if (state.syncMode === 'internal' && state.midiSettings.sendClock) {
+      if (startTick === 0) {
+        midiController.send({ type: 'start' });
+      } else {
+        const beats = Math.floor(startTick / (PPQN / CLOCKS_PER_QUARTER) / CLOCKS_PER_BEAT);
+        midiController.send({ type: 'songPosition', beats });
+        midiController.send({ type: 'continue' });
+      }
+    }
+  },
+
+  stopPlayback: () => {
+    sequencer.stop();
+    set({ isPlaying: false });
+    const { syncMode, midiSettings } = get();
+    if (syncMode === 'internal' && midiSettings.sendClock) {
+      midiController.send({ type: 'stop' });
+    }
+  },
+
+  toggleRecord: () => {
+    const state = get();
+    if (state.isRecording) {
+      set({ isRecording: false });
+      return;
+    }
+
+    if (!state.overdub) {
+      get().clearPattern();
+    }
+    set({ isRecording: true });
+  },
+
+  setOverdub: (overdub: boolean) => {
+    set({ overdub });
+  },
+
+  selectPattern: (patternNumber: number) => {
+    if (patternNumber < 0 || patternNumber >= MAX_PATTERNS) return;
+    set({ currentPattern: patternNumber });
+    sequencer.setCurrentPattern(patternNumber);
+  },
+
+  setPatternLength: (lengthBars: number) => {
+    const state = get();
+    const bars = Math.max(1, Math.min(MAX_PATTERN_BARS, Math.round(lengthBars)));
+    const pattern = resizePattern(getCurrentPattern(state), bars);
+    set({ patterns: { ...state.patterns, [state.currentPattern]: pattern } });
+  },
+
+  clearPattern: () => {
+    const state = get();
+    const current = getCurrentPattern(state);
+    const pattern = { ...current, events: [] };
+    set({ patterns: { ...state.patterns, [state.currentPattern]: pattern } });
+  },
+
+  // Step Program edits the current segment at a cursor, while stopped
+  setStepCursor: (tick: number | null) => {
+    if (tick !== null && get().isPlaying) get().stopPlayback();
+    set({ stepCursor: tick });
+  },
+
+  // ◀/▶ in Step Program: the next grid step or hit
+  moveStepCursor: (delta: 1 | -1) => {
+    const state = get();
+    if (state.stepCursor === null) return;
+    const current = getCurrentPattern(state);
+    const cursor = Math.min(state.stepCursor, patternLengthTicks(current) - 1);
+    set({ stepCursor: getNextStepTick(current, cursor, delta, getStepTicks(state.quantize)) });
+  },
+
+  addPatternEvent: (event: SequenceEvent) => {
+    const state = get();
+    const pattern = addEvent(getCurrentPattern(state), event);
+    set({ patterns: { ...state.patterns, [state.currentPattern]: pattern } });
+  },
+
+  // Remove the hits in ticks [from, to), of one sound or all
+  removePatternEvents: (from: number, to: number, soundIndex?: number) => {
+    const state = get();
+    const pattern = removeEvents(
+      getCurrentPattern(state),
+      (e) => e.tick >= from && e.tick < to && (soundIndex === undefined || e.soundIndex === soundIndex)
+    );
+    set({ patterns: { ...state.patterns, [state.currentPattern]: pattern } });
+  },
+
+  // Full velocity is stored as no velocity
+  setPatternEventVelocity: (from: number, to: number, soundIndex: number, velocity: number) => {
+    const state = get();
+    const current = getCurrentPattern(state);
+    const events = current.events.map((e) => {
+      if (e.tick < from || e.tick >= to || e.soundIndex !== soundIndex) return e;
+      const event: SequenceEvent = { ...e, velocity };
+      if (velocity >= 1) delete event.velocity;
+      return event;
+    });
+    set({ patterns: { ...state.patterns, [state.currentPattern]: { ...current, events } } });
+  },
+
+  setQuantize: (quantize: Quantize) => {
+    set({ quantize });
+    sequencer.setSwing(get().swing, getSwingGrid(quantize));
+  },
+
+  setSwing: (swing: number) => {
+    const clamped = Math.max(MIN_SWING, Math.min(MAX_SWING, swing));
+    set({ swing: clamped });
+    sequencer.setSwing(clamped, getSwingGrid(get().quantize));
+  },
+
+  // Heard from the next unscheduled tick when playing
+  setTempo: (bpm: number) => {
+    const tempo = clampTempo(bpm);
+    sequencer.setTempo(tempo);
+    set({ tempo });
+  },
+
+  // Tempo button: BPM entry on the LCD, where Tap also sets the tempo;
+  // pressed again it closes
+  pressTempo: () => {
+    if (get().menu?.source === 'tempo') {
+      get().closeMenu();
+      return;
+    }
+    tapTempo.reset();
+    set({ keypadEntry: '' });
+    showMenuResult('tempo', tempoPrompt(get));
+  },
+
+  // Song mode Tempo Change: a tempo step at the cursor, BPM entered on the LCD
+  openTempoChange: () => {
+    set({ keypadEntry: '' });
+    showMenuResult('song', tempoChangePrompt(get));
+  },
+
+  toggleMetronome: () => {
+    const metronomeEnabled = !get().metronomeEnabled;
+    set({ metronomeEnabled });
+    sequencer.setMetronomeEnabled(metronomeEnabled);
+  },
+
+  toggleProgramMode: () => {
+    if (get().isPlaying) return;
+    // Step Program is a Segment mode function
+    set({ programMode: get().programMode === 'song' ? 'segment' : 'song', stepCursor: null });
+  },
+
+  selectSong: (songNumber: number) => {
+    if (songNumber < 0 || songNumber >= MAX_SONGS) return;
+    set({ currentSong: songNumber, songStartStep: 0, songCursor: 0 });
+  },
+
+  setFirstSongStep: (songNumber: number, step: number) => {
+    if (songNumber < 0 || songNumber >= MAX_SONGS) return;
+    set({ currentSong: songNumber, songStartStep: Math.max(0, step), songCursor: Math.max(0, step) });
+  },
+
+  // The cursor may sit one past the last step, where new steps are appended
+  setSongCursor: (step: number) => {
+    const length = getCurrentSong(get()).steps.length;
+    set({ songCursor: Math.max(0, Math.min(length, step)) });
+  },
+
+  insertSongStep: (step: SongStep) => {
+    const state = get();
+    const steps = [...getCurrentSong(state).steps];
+    steps.splice(state.songCursor, 0, step);
+    set({ songs: { ...state.songs, [state.currentSong]: { steps } } });
+  },
+
+  // Tempo change step, at the current tempo unless given
+  insertTempoStep: (bpm = get().tempo) => {
+    get().insertSongStep({ type: 'tempo', bpm: clampTempo(bpm) });
+  },
+
+  updateSongStep: (step: SongStep) => {
+    const state = get();
+    const steps = [...getCurrentSong(state).steps];
+    if (state.songCursor >= steps.length) return;
+    steps[state.songCursor] = step;
+    set({ songs: { ...state.songs, [state.currentSong]: { steps } } });
+  },
+
+  deleteSongStep: () => {
+    const state = get();
+    const steps = [...getCurrentSong(state).steps];
+    if (state.songCursor >= steps.length) return;
+    steps.splice(state.songCursor, 1);
+    set({ songs: { ...state.songs, [state.currentSong]: { steps } } });
+  },
+
+  saveProject: (scope: ProjectScope) => {
+    const state = get();
+    const project: Project = {};
+
+    if (scope !== 'sounds') {
+      project.sequences = getProjectSequences(state);
+    }
+
+    if (scope !== 'sequences') {
+      const sounds: Record<number, ProjectSound> = {};
+      for (let soundIndex = 0; soundIndex < SOUND_COUNT; soundIndex++) {
+        const sound = getProjectSound(state, soundIndex);
+        if (sound) sounds[soundIndex] = sound;
+      }
+      project.sounds = {
+        sounds,
+        sliderValues: state.sliderValues,
+        mixes: state.mixes,
+        currentMix: state.currentMix,
+        currentBank: state.currentBank,
+        polyphony: state.polyphony,
+      };
+    }
+
+    return new Blob([encodeProject(project)], { type: 'application/octet-stream' });
   },
 
-  triggerPad: (padIndex: number) => {
-    audioEngine.triggerPad(padIndex);
+  // Loading replaces what the scope covers: all sequences, or all of sound memory
+  loadProject: async (file: Blob, scope: ProjectScope) => {
+    get().applyProject(await readProject(file), scope, ['project']);
+  },
+
+  // `tags` label sounds added to the library on the way in
+  applyProject: (project: Project, scope: ProjectScope, tags: string[] = []) => {
+    const { sequences, sounds } = project;
+
+    if (scope !== 'sounds' && sequences) {
+      if (get().isPlaying) get().togglePlay();
+      get().setTempo(sequences.tempo);
+      set({
+        patterns: sequences.patterns,
+        songs: sequences.songs,
+        songStartStep: 0,
+        songCursor: 0,
+      });
+      get().setQuantize(sequences.quantize);
+      get().setSwing(sequences.swing);
+    }
+
+    if (scope !== 'sequences' && sounds) {
+      for (let soundIndex = 0; soundIndex < SOUND_COUNT; soundIndex++) {
+        audioEngine.clearSample(soundIndex);
+        audioEngine.setVoiceParams(soundIndex, DEFAULT_VOICE_PARAMS);
+        audioEngine.setChannelAssign(soundIndex, null);
+        audioEngine.setVoiceAllocation(soundIndex, null);
+      }
+      set({
+        loadedSamples: {},
+        soundHashes: {},
+        sampleEdits: {},
+        voiceParams: {},
+        channelAssign: {},
+        voiceAllocation: {},
+        loopEdit: null,
+        // Positions only: the sounds and the mix already hold what they set
+        sliderValues: sounds.sliderValues,
+        mixes: sounds.mixes,
+        currentBank: sounds.currentBank,
+      });
+      for (const [index, sound] of Object.entries(sounds.sounds)) {
+        applyProjectSound(Number(index), sound, tags);
+      }
+      // A current mix that isn't among the mixes falls back to the first
+      const mix = sounds.mixes.find((m) => m.name === sounds.currentMix) ?? sounds.mixes[0];
+      if (mix) get().selectMix(mix.name);
+      get().setPolyphony(sounds.polyphony);
+    }
+  },
+
+  // Load Segment #: copy one pattern from a project into a pattern slot
+  loadSegmentFromProject: async (file: Blob, fromPattern: number, toPattern: number) => {
+    const pattern = (await readProject(file)).sequences?.patterns[fromPattern];
+    if (!pattern || toPattern < 0 || toPattern >= MAX_PATTERNS) return false;
+    set((state) => ({ patterns: { ...state.patterns, [toPattern]: pattern } }));
+    return true;
+  },
+
+  // Load Sound #: copy one sound from a project into a sound slot
+  loadSoundFromProject: async (file: Blob, fromSound: number, toSound: number) => {
+    const sound = (await readProject(file)).sounds?.sounds[fromSound];
+    if (!sound || toSound < 0 || toSound >= SOUND_COUNT) return false;
+    applyProjectSound(toSound, sound, ['project']);
+    return true;
+  },
+
+  openCatalog: async (kind: LibraryKind) => {
+    set({ catalog: { kind, query: '', entries: [], selected: 0 } });
+    await get().searchCatalog('');
+  },
+
+  closeCatalog: () => {
+    set({ catalog: null });
+  },
+
+  searchCatalog: async (query: string) => {
+    const { catalog } = get();
+    if (!catalog) return;
+    set({ catalog: { ...catalog, query } });
+    const entries = await soundLibrary.search(catalog.kind, query);
+    // Ignore results for a query that has since changed
+    const current = get().catalog;
+    if (current?.kind !== catalog.kind || current.query !== query) return;
+    set({ catalog: { ...current, entries, selected: 0 } });
+  },
+
+  selectCatalogEntry: (index: number) => {
+    const { catalog } = get();
+    if (!catalog || catalog.entries.length === 0) return;
+    const selected = Math.max(0, Math.min(catalog.entries.length - 1, index));
+    set({ catalog: { ...catalog, selected } });
+  },
+
+  // Sounds go to the last played pad; sequences replace the sequence memory
+  assignCatalogEntry: async () => {
+    const { catalog } = get();
+    const entry = catalog?.entries[catalog.selected];
+    if (!catalog || !entry) return false;
+
+    if (catalog.kind === 'sequences') {
+      const stored = await soundLibrary.getSequences(entry.hash);
+      if (!stored) return false;
+      get().applyProject({ sequences: stored.data }, 'sequences');
+      return true;
+    }
+
+    if (!audioEngine.initialized) return false;
+    const stored = await soundLibrary.getSound(entry.hash);
+    if (!stored) return false;
+    const soundIndex = get().lastSoundIndex;
+    const sound = { name: entry.name, sampleRate: stored.entry.sampleRate, data: stored.data };
+    applyProjectSound(soundIndex, sound, []);
+    return true;
+  },
+
+  setCatalogTags: async (hash: string, tags: string[]) => {
+    const { catalog } = get();
+    if (!catalog) return;
+    await soundLibrary.setTags(catalog.kind, hash, tags);
+    await get().searchCatalog(catalog.query);
+  },
+
+  addSequencesToLibrary: async (name: string, tags: string[] = []) => {
+    await soundLibrary.addSequences(name, getProjectSequences(get()), tags);
+    const { catalog } = get();
+    if (catalog?.kind === 'sequences') await get().searchCatalog(catalog.query);
+  },
+
+  // At startup: the sequences, mixes and settings straight away, the
+  // sounds once the audio is started (see initAudio). Runs once; later
+  // calls wait for it. Returns false when there was no session to restore.
+  restoreSession: () => {
+    if (sessionRestore) return sessionRestore;
+    sessionRestore = (async () => {
+      try {
+        const session = await soundLibrary.loadSession();
+        if (!session) return false;
+
+        const { sounds } = session;
+        get().applyProject({ sequences: session.sequences }, 'sequences');
+        set({ mixes: sounds.mixes, currentBank: sounds.currentBank, sliderValues: sounds.sliderValues });
+        const mix = sounds.mixes.find((m) => m.name === sounds.currentMix) ?? sounds.mixes[0];
+        if (mix) get().selectMix(mix.name);
+        get().setPolyphony(sounds.polyphony ?? DEFAULT_POLYPHONY);
+        pendingSessionSounds = sounds.sounds;
+        resetUndoHistory();
+        console.log('[SP1200] Session restored');
+        return true;
+      } catch (error) {
+        console.error('[SP1200] Failed to restore session:', error);
+        return false;
+      } finally {
+        sessionRestored = true;
+      }
+    })();
+    return sessionRestore;
+  },
+
+  // Render the current segment (once) or song to WAV
+  bounceAudio: async (source: BounceSource, options: BounceOptions) => {
+    const state = get();
+    const playlist =
+      source === 'song'
+        ? flattenSong(state.songs, state.currentSong, state.songStartStep)
+        : [{ type: 'segment' as const, pattern: state.currentPattern }];
+    const { events, duration } = buildTimeline(
+      state.patterns,
+      playlist,
+      state.tempo,
+      state.swing,
+      getSwingGrid(state.quantize)
+    );
+    if (duration === 0) return [];
+
+    const number = source === 'song' ? state.currentSong : state.currentPattern;
+    const name = `sp1200-${source}${String(number).padStart(2, '0')}`;
+    return bounce(events, duration, name, options);
+  },
+
+  // Re-Sample (Sample 6): render one hit of a sound, or the current
+  // segment's mix, through the output chain into a slot. The tune, decay
+  // and crusher are baked in, so the new sound starts from neutral voice
+  // settings. Master and channel gains are unity and pans centred, as the
+  // new sound goes through them again when it plays. The sampling mode is
+  // the live one: in emulation the hit is 12-bit and channel filtered, as
+  // when the original resamples its own outputs. Returns false when there
+  // was nothing to render.
+  resample: async (source: number | 'mix', target: number) => {
+    const state = get();
+    const sampleRate = audioEngine.context?.sampleRate;
+    if (!sampleRate) return false;
+
+    const { events, duration } =
+      source === 'mix'
+        ? buildTimeline(
+            state.patterns,
+            [{ type: 'segment', pattern: state.currentPattern }],
+            state.tempo,
+            state.swing,
+            getSwingGrid(state.quantize)
+          )
+        : { events: [{ time: 0, soundIndex: source }], duration: audioEngine.getHitLength(source) };
+    if (duration === 0 || events.length === 0) return false;
+
+    const channels = state.channels.map((channel) => ({ ...channel, level: 1, pan: 0 }));
+    const buffer = await audioEngine.renderOffline(events, duration, sampleRate, channels, {
+      ...audioEngine.getState(),
+      masterVolume: 1,
+    });
+    const origin =
+      source === 'mix' ? `SEG ${String(state.currentPattern).padStart(2, '0')}` : formatSoundName(source);
+    audioEngine.setVoiceParams(target, DEFAULT_VOICE_PARAMS);
+    set((current) => ({ voiceParams: withoutSound(current.voiceParams, target) }));
+    assignBuffer(target, buffer, `Re-Sample ${origin}`, ['resampled']);
+    return true;
+  },
+
+  // Ctrl+Z / Ctrl+Shift+Z: step back and forth through the sound, sequence,
+  // mix and song edits (see the undo history below)
+  undo: () => {
+    const label = undoHistory.undo(restoreUndoState);
+    set({ lcdMessage: label ? `UNDO ${label}` : 'NOTHING TO UNDO' });
+  },
+
+  redo: () => {
+    const label = undoHistory.redo(restoreUndoState);
+    set({ lcdMessage: label ? `REDO ${label}` : 'NOTHING TO REDO' });
+  },
+
+  // Opens the first input and output unless ports were already chosen
+  enableMidi: async (access?: MidiAccess) => {
+    await midiController.enable(access);
+    const midiInputs = midiController.getInputs();
+    const midiOutputs = midiController.getOutputs();
+    set({ midiEnabled: true, midiInputs, midiOutputs });
+
+    const { inputId, outputId } = get().midiSettings;
+    get().setMidiSettings({
+      inputId: inputId ?? midiInputs[0]?.id ?? null,
+      outputId: outputId ?? midiOutputs[0]?.id ?? null,
+    });
+  },
+
+  setMidiSettings: (settings: Partial<MidiSettings>) => {
+    const midiSettings = { ...get().midiSettings, ...settings };
+    set({ midiSettings });
+    if (settings.inputId !== undefined) midiController.selectInput(midiSettings.inputId);
+    if (settings.outputId !== undefined) midiController.selectOutput(midiSettings.outputId);
+  },
+
+  // MIDI learn: the next CC received is mapped to this slider
+  setMidiLearnSlider: (slider: number | null) => {
+    set({ midiLearnSlider: slider });
+  },
+
+  clearSliderCc: (slider: number) => {
+    const ccMap = Object.fromEntries(
+      Object.entries(get().ccMap).filter(([, mapped]) => mapped !== slider)
+    );
+    set({ ccMap });
+  },
+
+  // Throws (staying on internal) when the sync input cannot be opened
+  setSyncMode: async (mode: SyncMode) => {
+    if (get().isPlaying) get().stopPlayback();
+    try {
+      await syncClock.select(mode);
+    } finally {
+      set({ syncMode: syncClock.getMode() });
+    }
+  },
+
+  setSyncSettings: (settings: Partial<SyncSettings>) => {
+    const syncSettings = { ...get().syncSettings, ...settings };
+    set({ syncSettings });
+    syncClock.setSettings(syncSettings);
+    audioEngine.setClickOutput(syncSettings.clickOut);
+  },
+
+  setInputLearn: (action: InputAction | null) => {
+    set({ inputLearn: action });
+  },
+
+  bindInput: (binding: InputBinding, action: InputAction) => {
+    const inputMapping = bindInput(get().inputMapping, binding, action);
+    set({ inputMapping, inputLearn: null });
+    savePreferences({ inputMapping });
+  },
+
+  unbindInput: (action: InputAction) => {
+    const inputMapping = unbindAction(get().inputMapping, action);
+    set({ inputMapping });
+    savePreferences({ inputMapping });
+  },
+
+  resetInputMapping: () => {
+    set({ inputMapping: DEFAULT_INPUT_MAPPING });
+    savePreferences({ inputMapping: DEFAULT_INPUT_MAPPING });
+  },
+
+  setLcdMessage: (text: string) => {
+    set({ lcdMessage: text });
+  },
+
+  // A column button waits for a function number; pressed again it closes the menu
+  pressMenuButton: (column: MenuColumn) => {
+    if (get().menu?.source === column) {
+      get().closeMenu();
+      return;
+    }
+    set({ menu: { type: 'select', source: column, entry: '' }, keypadEntry: '' });
+  },
+
+  openMenuFunction: (column: MenuColumn, item: number) => {
+    const menuFunction = MENU_FUNCTIONS[column][item];
+    set({ keypadEntry: '' });
+    if (!menuFunction) {
+      set({ menu: null, lcdMessage: `NO FUNCTION ${item}` });
+      return;
+    }
+    showMenuResult(column, menuFunction(get));
+  },
+
+  closeMenu: () => {
+    set({ menu: null });
+  },
+
+  // Keypad: the open menu's number or field first, then the Loop/Truncate
+  // edit points, otherwise two digits select a segment (a song in Song mode)
+  pressKeypad: (digit: number) => {
+    const { menu, loopEdit, programMode, keypadEntry } = get();
+    if (menu?.type === 'select') {
+      const entry = menu.entry + digit;
+      if (entry.length < MENU_DIGITS[menu.source]) {
+        set({ menu: { ...menu, entry } });
+      } else {
+        get().openMenuFunction(menu.source, Number(entry));
+      }
+      return;
+    }
+    if (menu?.type === 'prompt') {
+      const { prompt } = menu;
+      if (prompt.field.type !== 'confirm') {
+        set({ menu: { ...menu, prompt: { ...prompt, field: typeDigit(prompt.field, digit) } } });
+      } else if (digit === YES_KEY) {
+        showMenuResult(menu.source, prompt.commit(prompt.field));
+      } else if (digit === NO_KEY) {
+        set({ menu: null, lcdMessage: 'CANCELLED' });
+      }
+      return;
+    }
+
+    if (loopEdit) {
+      if (digit >= 1 && digit <= EDIT_POINTS.length) get().selectEditPoint(EDIT_POINTS[digit - 1]);
+      return;
+    }
+    const prefix = programMode === 'song' ? 'SONG' : 'SEG';
+    const entry = keypadEntry + digit;
+    if (entry.length < 2) {
+      set({ keypadEntry: entry, lcdMessage: `${prefix} ${entry}_` });
+      return;
+    }
+    set({ keypadEntry: '', lcdMessage: `${prefix} ${entry}` });
+    if (programMode === 'song') {
+      get().selectSong(Number(entry));
+    } else {
+      get().selectPattern(Number(entry));
+    }
+  },
+
+  // ◀/▶ and Enter belong to the menu while one is open; false lets the
+  // caller use them for the editor, the catalog or the song cursor
+  pressCursor: (delta: 1 | -1) => {
+    const { menu } = get();
+    if (!menu) return false;
+    if (menu.type === 'prompt') {
+      set({ menu: { ...menu, prompt: { ...menu.prompt, field: moveCursor(menu.prompt.field, delta) } } });
+    }
+    return true;
+  },
+
+  pressEnter: () => {
+    const { menu } = get();
+    if (!menu) return false;
+    // Questions are answered with Yes/No
+    if (menu.type === 'prompt' && menu.prompt.field.type !== 'confirm') {
+      showMenuResult(menu.source, menu.prompt.commit(menu.prompt.field));
+    }
+    return true;
   },
 }));
+
+// Keep the sequencer's pattern data in step with the store
+useSP1200Store.subscribe((state, prevState) => {
+  if (state.patterns !== prevState.patterns) {
+    sequencer.setPatterns(state.patterns);
+  }
+});
+
+// Auto-save the session to the library (after it has been restored once)
+const SESSION_SAVE_DELAY = 1000; // ms
+let sessionRestore: Promise<boolean> | null = null;
+let sessionRestored = false;
+let sessionTimer: ReturnType<typeof setTimeout> | null = null;
+// Session sounds waiting for the audio context; saved as they were meanwhile
+let pendingSessionSounds: Session['sounds']['sounds'] | null = null;
+
+const restoreSessionSounds = async () => {
+  const pending = pendingSessionSounds;
+  if (!pending) return;
+  try {
+    for (const [index, { hash, ...meta }] of Object.entries(pending)) {
+      const stored = await soundLibrary.getSound(hash);
+      if (!stored) continue;
+      const sound: ProjectSound = { ...meta, sampleRate: stored.entry.sampleRate, data: stored.data };
+      applyProjectSound(Number(index), sound, []);
+    }
+  } catch (error) {
+    console.error('[SP1200] Failed to restore session sounds:', error);
+  } finally {
+    pendingSessionSounds = null;
+    resetUndoHistory();
+  }
+};
+
+const buildSession = (state: SP1200State): Session => {
+  const sounds: Session['sounds']['sounds'] = { ...pendingSessionSounds };
+  for (const [index, hash] of Object.entries(state.soundHashes)) {
+    const soundIndex = Number(index);
+    sounds[soundIndex] = {
+      hash,
+      name: state.loadedSamples[soundIndex] ?? formatSoundName(soundIndex),
+      edit: state.sampleEdits[soundIndex],
+      voice: state.voiceParams[soundIndex],
+      channel: state.channelAssign[soundIndex],
+      allocation: state.voiceAllocation[soundIndex],
+    };
+  }
+  return {
+    sequences: getProjectSequences(state),
+    sounds: {
+      sounds,
+      sliderValues: state.sliderValues,
+      mixes: state.mixes,
+      currentMix: state.currentMix,
+      currentBank: state.currentBank,
+      polyphony: state.polyphony,
+    },
+  };
+};
+
+const SESSION_KEYS: (keyof SP1200State)[] = [
+  'patterns',
+  'songs',
+  'swing',
+  'tempo',
+  'quantize',
+  'soundHashes',
+  'sampleEdits',
+  'voiceParams',
+  'channelAssign',
+  'voiceAllocation',
+  'polyphony',
+  'sliderValues',
+  'mixes',
+  'currentMix',
+  'currentBank',
+];
+
+useSP1200Store.subscribe((state, prevState) => {
+  if (!sessionRestored || !SESSION_KEYS.some((key) => state[key] !== prevState[key])) return;
+  if (sessionTimer) clearTimeout(sessionTimer);
+  sessionTimer = setTimeout(() => {
+    sessionTimer = null;
+    soundLibrary
+      .saveSession(buildSession(useSP1200Store.getState()))
+      .catch((error) => console.error('[SP1200] Failed to save session:', error));
+  }, SESSION_SAVE_DELAY);
+});
+
+// Undo history: what each edit to the sounds, sequences and mixes replaced.
+// Edits are noticed like the session auto-save; the store fields of a step
+// are the previous objects, and sounds are kept as their AudioBuffers.
+const UNDO_KEYS = [
+  'loadedSamples',
+  'soundHashes',
+  'sampleEdits',
+  'voiceParams',
+  'voiceAllocation',
+  'channelAssign',
+  'channels',
+  'mixes',
+  'currentMix',
+  'patterns',
+  'songs',
+] as const;
+type UndoKey = (typeof UNDO_KEYS)[number];
+type UndoFields = Partial<Pick<SP1200State, UndoKey>>;
+
+interface UndoState {
+  fields: UndoFields;
+  buffers: Record<number, AudioBuffer | null>; // sound index -> buffer, null = empty slot
+}
+
+const UNDO_MERGE_TIME = 500; // ms: edits of a kind closer than this are one step (fader moves)
+
+const undoHistory = new UndoHistory<UndoState>({
+  sizeOf: (state) => {
+    const sizes = new Map<object, number>();
+    for (const buffer of Object.values(state.buffers)) {
+      if (buffer) sizes.set(buffer, buffer.length * buffer.numberOfChannels * Float32Array.BYTES_PER_ELEMENT);
+    }
+    return sizes;
+  },
+  merge: (earlier, later) => ({
+    fields: { ...later.fields, ...earlier.fields },
+    buffers: { ...later.buffers, ...earlier.buffers },
+  }),
+});
+
+const pickUndoFields = (fields: UndoFields, keys: UndoKey[]): UndoFields =>
+  Object.fromEntries(keys.map((key) => [key, fields[key]]));
+
+const takeUndoSnapshot = (): UndoState => {
+  const state = useSP1200Store.getState();
+  const buffers: UndoState['buffers'] = {};
+  for (let soundIndex = 0; soundIndex < SOUND_COUNT; soundIndex++) {
+    buffers[soundIndex] = audioEngine.getSampleBuffer(soundIndex);
+  }
+  return { fields: pickUndoFields(state, [...UNDO_KEYS]), buffers };
+};
+
+// LCD name of a step, by what it changed
+const getUndoLabel = (keys: UndoKey[], soundChanged: boolean): string => {
+  if (soundChanged || keys.includes('loadedSamples')) return 'SOUND';
+  if (keys.includes('sampleEdits')) return 'LOOP/TRUNC';
+  if (keys.includes('patterns')) return 'SEGMENT';
+  if (keys.includes('songs')) return 'SONG';
+  if (keys.includes('voiceParams') || keys.includes('voiceAllocation')) return 'VOICE';
+  return 'MIX';
+};
+
+let undoBaseline = takeUndoSnapshot();
+let undoPending = false;
+let undoPass = 0; // record / erase passes, each undone as a whole
+let undoBurst = 0;
+let lastUndoTime = 0;
+
+// Changes made together (e.g. loading a project) settle before the step is taken
+const commitUndoStep = () => {
+  undoPending = false;
+  const current = takeUndoSnapshot();
+  const before = undoBaseline;
+  undoBaseline = current;
+
+  const keys = UNDO_KEYS.filter((key) => before.fields[key] !== current.fields[key]);
+  const buffers: UndoState['buffers'] = {};
+  for (let soundIndex = 0; soundIndex < SOUND_COUNT; soundIndex++) {
+    if (before.buffers[soundIndex] !== current.buffers[soundIndex]) {
+      buffers[soundIndex] = before.buffers[soundIndex];
+    }
+  }
+  const soundChanged = Object.keys(buffers).length > 0;
+  // Library hashes arrive after the sound they belong to
+  if (!soundChanged && keys.every((key) => key === 'soundHashes')) return;
+
+  const state = useSP1200Store.getState();
+  const now = performance.now();
+  if (now - lastUndoTime > UNDO_MERGE_TIME) undoBurst++;
+  lastUndoTime = now;
+  const label = getUndoLabel(keys, soundChanged);
+  const live = (state.isRecording && state.isPlaying) || state.eraseHeld;
+  undoHistory.push(
+    label,
+    { fields: pickUndoFields(before.fields, keys), buffers },
+    live ? `pass:${undoPass}` : `${label}:${undoBurst}`
+  );
+};
+
+// Put a step back in the store and the engine; returns what it replaced
+const restoreUndoState = (state: UndoState): UndoState => {
+  const current = takeUndoSnapshot();
+  const keys = Object.keys(state.fields) as UndoKey[];
+  const replaced: UndoState = { fields: pickUndoFields(current.fields, keys), buffers: {} };
+  for (const [index, buffer] of Object.entries(state.buffers)) {
+    const soundIndex = Number(index);
+    replaced.buffers[soundIndex] = current.buffers[soundIndex];
+    if (buffer) {
+      audioEngine.setSampleBuffer(soundIndex, buffer);
+    } else {
+      audioEngine.clearSample(soundIndex);
+    }
+  }
+
+  const { loopEdit } = useSP1200Store.getState();
+  const editedSound = loopEdit !== null && loopEdit.soundIndex in state.buffers;
+  useSP1200Store.setState(editedSound ? { ...state.fields, loopEdit: null } : state.fields);
+
+  // Sequences only live in the store. New buffers drop their points, so
+  // those go back to the engine with the voice and mixer settings.
+  const soundChanged = Object.keys(state.buffers).length > 0;
+  if (soundChanged || keys.some((key) => key !== 'patterns' && key !== 'songs')) {
+    const restored = useSP1200Store.getState();
+    for (let soundIndex = 0; soundIndex < SOUND_COUNT; soundIndex++) {
+      audioEngine.setSampleEdit(soundIndex, restored.sampleEdits[soundIndex] ?? null);
+      audioEngine.setVoiceParams(soundIndex, restored.voiceParams[soundIndex] ?? DEFAULT_VOICE_PARAMS);
+      audioEngine.setChannelAssign(soundIndex, restored.channelAssign[soundIndex] ?? null);
+      audioEngine.setVoiceAllocation(soundIndex, restored.voiceAllocation[soundIndex] ?? null);
+    }
+    audioEngine.setChannels(restored.channels);
+  }
+
+  undoBaseline = takeUndoSnapshot();
+  return replaced;
+};
+
+// A restored session is where undo starts from
+const resetUndoHistory = () => {
+  undoHistory.clear();
+  undoBaseline = takeUndoSnapshot();
+};
+
+useSP1200Store.subscribe((state, prevState) => {
+  if ((state.isRecording && !prevState.isRecording) || (state.eraseHeld && !prevState.eraseHeld)) {
+    undoPass++;
+  }
+  if (undoPending || !UNDO_KEYS.some((key) => state[key] !== prevState[key])) return;
+  undoPending = true;
+  queueMicrotask(commitUndoStep);
+});
+
+// Live sampling: meter, status and assigning the captured sound
+inputCapture.subscribe((event) => {
+  switch (event.type) {
+    case 'level':
+      useSP1200Store.setState({ inputLevel: event.peak });
+      break;
+    case 'status':
+      useSP1200Store.setState({ captureStatus: event.status });
+      break;
+    case 'complete': {
+      const { sampleTarget } = useSP1200Store.getState();
+      assignBuffer(sampleTarget, event.buffer, `Sample ${formatSoundName(sampleTarget)}`, ['sampled']);
+      break;
+    }
+  }
+});
+
+// Clock out: MIDI clock while playing on the internal clock, and the
+// click track on any source
+sequencer.onTick((tick, time) => {
+  const state = useSP1200Store.getState();
+  const { syncMode, midiSettings, syncSettings, repeatHeld, heldPads, quantize, triggerPad } = state;
+  if (syncMode === 'internal' && midiSettings.sendClock && tick % (PPQN / CLOCKS_PER_QUARTER) === 0) {
+    midiController.send({ type: 'clock' }, time);
+  }
+  if (syncSettings.clickOut && tick % (PPQN / syncSettings.clicksPerBeat) === 0) {
+    audioEngine.triggerPulse(time);
+  }
+  // Note repeat: voices read tune/decay when they are scheduled, so slider
+  // moves during a roll apply to the next retrigger
+  if (repeatHeld && tick % getStepTicks(quantize) === 0) {
+    for (const [padIndex, velocity] of Object.entries(heldPads)) {
+      triggerPad(Number(padIndex), velocity, time);
+    }
+  }
+});
+
+// Delete/Erase held with pads: their hits go as the segment plays past them,
+// before the tick is scheduled so that an erased hit does not sound
+sequencer.onBeforeTick((segmentTick) => {
+  const state = useSP1200Store.getState();
+  const { heldPads } = state;
+  const heldSounds = Object.keys(heldPads).map((pad) => getPadSound(state, Number(pad)));
+  if (state.eraseHeld && state.programMode === 'segment' && heldSounds.length > 0) {
+    const current = getCurrentPattern(state);
+    const pattern = removeEvents(
+      current,
+      (e) => e.tick === segmentTick && heldSounds.includes(e.soundIndex)
+    );
+    if (pattern.events.length < current.events.length) {
+      useSP1200Store.setState({ patterns: { ...state.patterns, [state.currentPattern]: pattern } });
+    }
+  }
+});
+
+// External sync: the selected clock source drives the transport
+syncClock.subscribe((event) => {
+  const state = useSP1200Store.getState();
+  switch (event.type) {
+    case 'start':
+      state.stopPlayback();
+      state.startPlayback(event.tick);
+      break;
+    case 'stop':
+      state.stopPlayback();
+      break;
+    case 'pulse':
+      if (state.isPlaying) sequencer.syncToClock(event.tick, event.time, event.bpm);
+      break;
+  }
+});
+
+// MIDI in: notes play sounds, CCs move sliders (or are learned)
+midiController.subscribe((event) => {
+  const state = useSP1200Store.getState();
+  if (event.type === 'ports') {
+    useSP1200Store.setState({
+      midiInputs: midiController.getInputs(),
+      midiOutputs: midiController.getOutputs(),
+    });
+    return;
+  }
+
+  const { message } = event;
+  switch (message.type) {
+    case 'noteOn': {
+      if (!acceptsChannel(state.midiSettings, message.channel)) break;
+      const soundIndex = noteToSound(message.note, state.midiSettings.baseNote);
+      if (soundIndex !== null) state.triggerSound(soundIndex, { velocity: message.velocity / 127 });
+      break;
+    }
+    case 'controlChange': {
+      if (!acceptsChannel(state.midiSettings, message.channel)) break;
+      if (state.midiLearnSlider !== null) {
+        state.clearSliderCc(state.midiLearnSlider);
+        useSP1200Store.setState((s) => ({
+          ccMap: { ...s.ccMap, [message.controller]: state.midiLearnSlider as number },
+          midiLearnSlider: null,
+        }));
+        break;
+      }
+      const slider = state.ccMap[message.controller];
+      if (slider !== undefined) state.setSliderValue(slider, ccToSliderValue(message.value));
+      break;
+    }
+  }
+});
+
+// Song tempo steps and external clocks change the tempo as it plays
+sequencer.onTempo((bpm) => {
+  useSP1200Store.setState({ tempo: roundTempo(bpm) });
+});
+
+// Song playback ends on its own
+sequencer.onEnd(() => {
+  useSP1200Store.setState({ isPlaying: false });
+});